@@ -0,0 +1,186 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Shot } from './types';
+import { playTracks, PlaybackHandle, PlaybackTrack } from './audio';
+import { MediaImage, MediaVideo } from './Media';
+import { getShotDuration, formatTimecode, MIN_SHOT_DURATION, DEFAULT_AMBIENT_VOLUME } from './shotUtils';
+
+interface AnimaticPlayerProps {
+  shots: Shot[];
+  startIndex: number;
+  onClose: () => void;
+}
+
+const AnimaticPlayer: React.FC<AnimaticPlayerProps> = ({ shots, startIndex, onClose }) => {
+  const [index, setIndex] = useState(startIndex);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [elapsed, setElapsed] = useState(0);
+  const audioRef = useRef<PlaybackHandle | null>(null);
+  // 当前镜头已播放的秒数与所属镜头：暂停后从原处继续，切镜才归零
+  const elapsedRef = useRef(0);
+  const elapsedShotRef = useRef(startIndex);
+
+  const shot = shots[index];
+  const duration = shot ? getShotDuration(shot) : 0;
+  const totalDuration = shots.reduce((sum, s) => sum + getShotDuration(s), 0);
+  const offset = shots.slice(0, index).reduce((sum, s) => sum + getShotDuration(s), 0);
+
+  // 每个镜头：启动音轨 + 计时，到时自动切到下一镜；环境声循环到镜头结束
+  useEffect(() => {
+    // 末镜放完后再次播放从头开始
+    if (elapsedShotRef.current !== index || elapsedRef.current >= duration) {
+      elapsedShotRef.current = index;
+      elapsedRef.current = 0;
+    }
+    setElapsed(elapsedRef.current);
+    if (!isPlaying || !shot) return;
+    const resumeAt = elapsedRef.current;
+    const tracks: PlaybackTrack[] = [];
+    if (shot.voiceB64) tracks.push({ b64: shot.voiceB64 });
+    if (shot.ambientB64) tracks.push({ b64: shot.ambientB64, volume: shot.ambientVolume ?? DEFAULT_AMBIENT_VOLUME, loop: true });
+    if (tracks.length > 0) audioRef.current = playTracks(tracks, { offset: resumeAt, holdLoops: true });
+
+    const startedAt = Date.now() - resumeAt * 1000;
+    const played = () => Math.min(duration, (Date.now() - startedAt) / 1000);
+    const ticker = setInterval(() => setElapsed(played()), 100);
+    const timer = setTimeout(() => {
+      if (index < shots.length - 1) setIndex(index + 1);
+      else setIsPlaying(false);
+    }, (duration - resumeAt) * 1000);
+
+    return () => {
+      elapsedRef.current = played();
+      clearInterval(ticker);
+      clearTimeout(timer);
+      audioRef.current?.stop();
+      audioRef.current = null;
+    };
+  }, [index, isPlaying]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === ' ') { e.preventDefault(); setIsPlaying(p => !p); }
+      else if (e.key === 'ArrowRight') setIndex(i => Math.min(i + 1, shots.length - 1));
+      else if (e.key === 'ArrowLeft') setIndex(i => Math.max(i - 1, 0));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shots.length, onClose]);
+
+  if (!shot) return null;
+
+  return (
+    <div className="fixed inset-0 z-[1500] bg-black text-white flex flex-col animate-in fade-in">
+      <div className="flex-1 relative flex items-center justify-center overflow-hidden">
+        {shot.videoUrl ? (
+          <MediaVideo key={shot.id} src={shot.videoUrl} autoPlay loop muted playsInline className="max-w-full max-h-full object-contain" />
+        ) : shot.imageUrl ? (
+          <MediaImage key={shot.id} src={shot.imageUrl} className="max-w-full max-h-full object-contain animate-in" />
+        ) : (
+          <div className="text-center space-y-4 opacity-40">
+            <p className="text-3xl font-black italic">{shot.name}</p>
+            <p className="text-sm max-w-xl">{shot.chineseDescription}</p>
+          </div>
+        )}
+        {shot.dialogue && (
+          <div className="absolute bottom-16 left-1/2 -translate-x-1/2 max-w-3xl px-6 py-2 bg-black/60 rounded-lg text-center text-xl font-medium leading-relaxed">
+            <span className="text-yellow-300 mr-2">{shot.speaker}:</span>{shot.dialogue}
+          </div>
+        )}
+        <div className="absolute top-6 left-8 text-[10px] font-black uppercase tracking-widest opacity-60">
+          #{index + 1} / {shots.length} · {shot.name}
+        </div>
+        <button onClick={onClose} className="absolute top-6 right-8 w-12 h-12 flex items-center justify-center rounded-full bg-white/5 hover:bg-red-500/20 hover:rotate-90 transition-all text-2xl font-light">×</button>
+      </div>
+
+      <div className="h-24 px-12 flex items-center gap-8 border-t border-white/10 bg-[#050508]">
+        <div className="flex items-center gap-3">
+          <button onClick={() => setIndex(i => Math.max(i - 1, 0))} className="w-10 h-10 rounded-xl bg-white/5 hover:bg-white/10">⏮</button>
+          <button onClick={() => setIsPlaying(p => !p)} className="w-12 h-12 rounded-2xl bg-blue-600 hover:brightness-110 text-lg">{isPlaying ? '❚❚' : '▶'}</button>
+          <button onClick={() => setIndex(i => Math.min(i + 1, shots.length - 1))} className="w-10 h-10 rounded-xl bg-white/5 hover:bg-white/10">⏭</button>
+        </div>
+        <div className="flex-1 flex gap-1 h-2">
+          {shots.map((s, i) => {
+            const d = getShotDuration(s);
+            const fill = i < index ? 100 : i === index ? Math.min(100, (elapsed / d) * 100) : 0;
+            return (
+              <div key={s.id} onClick={() => setIndex(i)} style={{ flexGrow: d }} className="h-full rounded-full bg-white/10 overflow-hidden cursor-pointer">
+                <div className="h-full bg-blue-500" style={{ width: `${fill}%` }} />
+              </div>
+            );
+          })}
+        </div>
+        <span className="font-mono text-xs opacity-60">{formatTimecode(offset + Math.min(elapsed, duration))} / {formatTimecode(totalDuration)}</span>
+      </div>
+    </div>
+  );
+};
+
+interface AnimaticTimelineProps {
+  shots: Shot[];
+  onChange: (shots: Shot[]) => void;
+}
+
+const AnimaticTimeline: React.FC<AnimaticTimelineProps> = ({ shots, onChange }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  const [playFrom, setPlayFrom] = useState<number | null>(null);
+
+  const totalDuration = shots.reduce((sum, s) => sum + getShotDuration(s), 0);
+
+  const handleDrop = (target: number) => {
+    if (dragIndex === null || dragIndex === target) return;
+    const next = [...shots];
+    const [moved] = next.splice(dragIndex, 1);
+    next.splice(target, 0, moved);
+    onChange(next);
+  };
+
+  const setDuration = (id: string, value: number) => {
+    onChange(shots.map(s => s.id === id ? { ...s, duration: Math.max(MIN_SHOT_DURATION, value) } : s));
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between px-2">
+        <span className="font-mono text-[10px] opacity-40">{shots.length} 镜 · {formatTimecode(totalDuration)}</span>
+        <button onClick={() => setPlayFrom(0)} disabled={shots.length === 0} className="px-4 py-1.5 rounded-full bg-blue-600 text-white text-[9px] font-black uppercase tracking-widest hover:brightness-110 disabled:opacity-20">▶ 放映动态分镜</button>
+      </div>
+      <div className="flex-1 overflow-y-auto space-y-2 pr-2 scrollbar-hide pb-20">
+        {shots.map((shot, i) => (
+          <div
+            key={shot.id}
+            draggable
+            onDragStart={() => setDragIndex(i)}
+            onDragOver={e => { e.preventDefault(); setOverIndex(i); }}
+            onDrop={() => handleDrop(i)}
+            onDragEnd={() => { setDragIndex(null); setOverIndex(null); }}
+            className={`flex items-center gap-3 p-2 rounded-2xl border transition-all cursor-grab active:cursor-grabbing ${overIndex === i && dragIndex !== i ? 'border-blue-500 bg-blue-500/10' : 'border-white/5 bg-white/[0.02]'} ${dragIndex === i ? 'opacity-30' : ''}`}
+          >
+            <span className="w-5 text-center font-mono text-[9px] opacity-30">{i + 1}</span>
+            <div className="w-20 aspect-video rounded-lg overflow-hidden bg-black shrink-0">
+              {shot.imageUrl && <MediaImage src={shot.imageUrl} className="w-full h-full object-cover pointer-events-none" />}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-[10px] font-black truncate">{shot.name}</p>
+              <p className="text-[9px] opacity-40 truncate">{shot.dialogue ? `${shot.speaker}: ${shot.dialogue}` : shot.composition}</p>
+            </div>
+            <input
+              type="number"
+              min={MIN_SHOT_DURATION}
+              step={0.5}
+              value={getShotDuration(shot)}
+              onChange={e => setDuration(shot.id, parseFloat(e.target.value) || MIN_SHOT_DURATION)}
+              title="镜头时长 (秒)"
+              className="w-12 bg-black/20 rounded-lg px-1 py-1 text-[10px] font-mono text-center outline-none border border-white/5"
+            />
+            <button onClick={() => setPlayFrom(i)} title="从此镜开始放映" className="w-7 h-7 rounded-lg bg-white/5 hover:bg-blue-600 text-[10px]">▶</button>
+          </div>
+        ))}
+      </div>
+      {playFrom !== null && <AnimaticPlayer shots={shots} startIndex={playFrom} onClose={() => setPlayFrom(null)} />}
+    </>
+  );
+};
+
+export default AnimaticTimeline;
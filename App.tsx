@@ -1,251 +1,359 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Shot, StyleDistillation, AppStatus, AssetImage, ProductionMode } from './types';
-import { distillStyle, deductStoryboard, renderShot, removeWatermark } from './geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Shot, StyleDistillation, StylePreset, ImageMask, AppStatus, Asset, ProductionMode, ProjectSnapshot, ProjectMeta, ShotAction, StudioError, PurifyReviewItem, ReferenceMeta, ReferenceTag } from './types';
+import { distillStyle, deductStoryboard, renderShot, removeWatermark, detectOverlays, generateVoice, assignVoice, VOICE_POOLS, generateAmbience, animateShot } from './geminiService';
 import { db } from './db';
+import { importImageRefs, getMediaUrl, releaseMediaUrls } from './mediaStore';
+import { MediaImage, MediaVideo } from './Media';
+import { playTracks, PlaybackHandle, PlaybackTrack } from './audio';
+import AssetManager from './AssetManager';
+import AnimaticTimeline from './AnimaticTimeline';
+import ExportDialog from './ExportDialog';
+import { exportProjectBundle, importProjectBundle } from './projectBundle';
+import { downloadFile } from './exporters';
+import { importScriptFile, IMPORT_ACCEPT } from './importers';
+import { DEFAULT_AMBIENT_VOLUME, addTake, setTakeVideo, getShotTakes, getHeroTakeId, clearLoadingFlags } from './shotUtils';
+import ProjectSwitcher from './ProjectSwitcher';
+import ShotEditor from './ShotEditor';
+import QueuePanel from './QueuePanel';
+import ProviderPicker from './ProviderPicker';
+import ErrorNotice from './ErrorNotice';
+import ScriptOutline from './ScriptOutline';
+import MaskEditor from './MaskEditor';
+import PurifyReview from './PurifyReview';
+import StyleEditor from './StyleEditor';
+import { resolveStyle, isSameStyle } from './styles';
+import { getImageSize, setImageMask, setMaskRegions, composeMask, transferMask } from './masks';
+import { REFERENCE_TAGS, REFERENCE_TAG_META, setReference, toggleReferenceTag, getDistillSources } from './references';
+import { parseScript, ScriptScene } from './scriptParser';
+import { toStudioError, formatError } from './errors';
+import { DeductTarget, buildContinuity, describeTarget, placeShots, getTargetScene, getTargetCount } from './continuity';
+import { ProviderSettings, getProviderSettings, setProviderSettings, normalizeSettings } from './providers';
+import { jobQueue, isCancelled, DEFAULT_CONCURRENCY } from './jobQueue';
+import {
+  listProjects, loadLastProjectId, saveLastProjectId, createProject, readProject, renameProject,
+  deleteProject, createProjectMeta, createEmptySnapshot, projectPersister, collectOrphanMedia, collectMediaRefs
+} from './projects';
 
+// 全局偏好；项目数据按项目命名空间存储（见 projects.ts）
 const MASTER_KEYS = {
-  ASSETS: 'pf_master_assets_v30',
-  STYLE: 'pf_master_style_v30',
-  SCRIPT: 'pf_master_script_v30',
-  IMAGES: 'pf_master_images_v30',
-  SHOTS: 'pf_master_shots_v30',
   THEME: 'pf_master_theme_v30',
-  MODE: 'pf_master_mode_v30'
+  CONCURRENCY: 'pf_master_concurrency_v30',
+  PROVIDER: 'pf_master_provider_v30'
 };
 
-const compressImage = (base64Str: string, maxWidth = 1024, quality = 0.6): Promise<string> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.src = base64Str;
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      let width = img.width;
-      let height = img.height;
-      if (width > maxWidth) {
-        height = (maxWidth / width) * height;
-        width = maxWidth;
-      }
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.imageSmoothingEnabled = true;
-        ctx.drawImage(img, 0, 0, width, height);
-      }
-      resolve(canvas.toDataURL('image/jpeg', quality));
-    };
-  });
+type StudioPanel = 'distill' | 'deduct' | 'purify';
+
+const SHOT_COUNT_PRESETS = [1, 2, 4, 8];
+const MAX_SHOT_COUNT = 24;
+
+const SHOT_ACTION_LABELS: Record<ShotAction, string> = {
+  render: '渲染',
+  video: '动态镜头',
+  voice: '配音',
+  ambience: '环境声'
+};
+
+// 按分镜绑定的资产 ID 拆分出角色与场景参考
+const resolveShotAssets = (shot: Shot, assets: Asset[]) => {
+  const bound = assets.filter(a => shot.assetIds?.includes(a.id));
+  return {
+    characters: bound.filter(a => a.type === 'character'),
+    scenes: bound.filter(a => a.type === 'scene')
+  };
 };
 
 const App: React.FC = () => {
   const [isLoaded, setIsLoaded] = useState(false);
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
   const [showWelcome, setShowWelcome] = useState(true);
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
   const [productionMode, setProductionMode] = useState<ProductionMode>('cinematic');
   
   const [images, setImages] = useState<string[]>([]);
+  // 参考图的提取标记与标签，按图片引用保存
+  const [references, setReferences] = useState<Record<string, ReferenceMeta>>({});
+  const [isDraggingArchive, setIsDraggingArchive] = useState(false);
+  const distillSources = useMemo(() => getDistillSources(images, references), [images, references]);
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [showAssetManager, setShowAssetManager] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [castVoices, setCastVoices] = useState<Record<string, string>>({});
+  const [playingShotId, setPlayingShotId] = useState<string | null>(null);
+  const [stillOnly, setStillOnly] = useState<Set<string>>(new Set());
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [providers, setProviders] = useState<ProviderSettings>(getProviderSettings);
+  const [editingShotId, setEditingShotId] = useState<string | null>(null);
+  const [monitorView, setMonitorView] = useState<'list' | 'timeline'>('list');
+  const playbackRef = useRef<PlaybackHandle | null>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const scriptInputRef = useRef<HTMLInputElement>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
   const [style, setStyle] = useState<StyleDistillation | null>(null);
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+  const [showStyleEditor, setShowStyleEditor] = useState(false);
   const [script, setScript] = useState('');
   const [shots, setShots] = useState<Shot[]>([]);
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [aspectRatio, setAspectRatio] = useState<string>("16:9");
   const [shotCount, setShotCount] = useState<number>(4);
+  const [autoRender, setAutoRender] = useState(true);
+  const [deductMode, setDeductMode] = useState<'fresh' | 'continue'>('fresh');
+  const lastDeductRef = useRef<DeductTarget[]>([{ kind: 'fresh' }]);
+  // 各分镜进行中的渲染数（A/B 对照会同时渲染两条），全部结束才清除渲染状态
+  const rendersInFlightRef = useRef<Record<string, number>>({});
+  const scriptRef = useRef<HTMLTextAreaElement>(null);
+  const parsedScript = useMemo(() => parseScript(script), [script]);
   const [directorLog, setDirectorLog] = useState<string[]>([]);
+  const [panelErrors, setPanelErrors] = useState<Partial<Record<StudioPanel, StudioError>>>({});
 
   // Purifier V5.2 - State Management
   const [showPurifier, setShowPurifier] = useState(false);
   const [purifyInput, setPurifyInput] = useState<string | null>(null);
   const [purifyOutput, setPurifyOutput] = useState<string | null>(null);
   const [isPurifying, setIsPurifying] = useState(false);
-  const [maskVault, setMaskVault] = useState<Record<string, string>>({}); 
-  const [maskHistory, setMaskHistory] = useState<Record<string, string[]>>({}); // Undo system
+  // 每张参考图各自的遮罩与撤销栈，随项目持久化
+  const [masks, setMasks] = useState<Record<string, ImageMask>>({});
+  const [isDetecting, setIsDetecting] = useState(false);
   const [compareSplit, setCompareSplit] = useState(50);
   const [isDraggingPurify, setIsDraggingPurify] = useState(false);
   const [selectedInMatrix, setSelectedInMatrix] = useState<Set<string>>(new Set());
   const [processingBatch, setProcessingBatch] = useState<Set<string>>(new Set());
-  
-  // Brush System
-  const [brushSize, setBrushSize] = useState(40);
-  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [mousePos, setMousePos] = useState({ x: -100, y: -100 });
+  const [failedBatch, setFailedBatch] = useState<string[]>([]);
+  const [purifyReviews, setPurifyReviews] = useState<PurifyReviewItem[]>([]);
+  const [showReview, setShowReview] = useState(false);
+
+  const applySnapshot = (project: ProjectSnapshot) => {
+    setScript(project.script);
+    setStyle(project.style);
+    setStylePresets(project.stylePresets);
+    setImages(project.images);
+    setMasks(project.masks);
+    setReferences(project.references);
+    setShots(project.shots.map(clearLoadingFlags));
+    setAssets(project.assets);
+    setProductionMode(project.mode);
+    setCastVoices(project.castVoices);
+    setStillOnly(new Set());
+    setSelectedInMatrix(new Set());
+    setPurifyInput(null);
+    setPurifyOutput(null);
+    setFailedBatch([]);
+    setPurifyReviews([]);
+    setShowReview(false);
+    setPanelErrors({});
+    setStatus(AppStatus.IDLE);
+  };
 
   useEffect(() => {
     const initApp = async () => {
-      const [sStyle, sScript, sImages, sShots, sTheme, sMode] = await Promise.all([
-        db.get(MASTER_KEYS.STYLE), db.get(MASTER_KEYS.SCRIPT),
-        db.get(MASTER_KEYS.IMAGES), db.get(MASTER_KEYS.SHOTS), db.get(MASTER_KEYS.THEME),
-        db.get(MASTER_KEYS.MODE)
+      const [sTheme, sConcurrency, sProvider, list, lastId] = await Promise.all([
+        db.get(MASTER_KEYS.THEME), db.get(MASTER_KEYS.CONCURRENCY), db.get(MASTER_KEYS.PROVIDER), listProjects(), loadLastProjectId()
       ]);
-      if (sStyle) setStyle(sStyle);
-      if (sScript) setScript(sScript);
-      if (sImages) setImages(sImages);
-      if (sShots) setShots(sShots);
       if (sTheme) setTheme(sTheme || 'dark');
-      if (sMode) setProductionMode(sMode);
+      if (sConcurrency) setConcurrency(sConcurrency);
+      if (sProvider) setProviders(normalizeSettings(sProvider));
+      if (list.length === 0) {
+        const meta = createProjectMeta('默认项目');
+        await createProject(meta, createEmptySnapshot());
+        list.push(meta);
+      }
+      const current = list.find(p => p.id === lastId) || list[0];
+      applySnapshot(await projectPersister.load(current.id));
+      setProjects(list);
+      setCurrentProjectId(current.id);
       setIsLoaded(true);
+      const removed = await collectOrphanMedia();
+      if (removed > 0) log(`🧹 已清理 ${removed} 个未被引用的媒体文件。`);
     };
     initApp();
+    const flushOnExit = () => { projectPersister.flush(); };
+    window.addEventListener('beforeunload', flushOnExit);
+    return () => window.removeEventListener('beforeunload', flushOnExit);
   }, []);
 
   useEffect(() => {
-    if (isLoaded) {
-      db.set(MASTER_KEYS.STYLE, style);
-      db.set(MASTER_KEYS.SCRIPT, script);
-      db.set(MASTER_KEYS.IMAGES, images);
-      db.set(MASTER_KEYS.SHOTS, shots);
-      db.set(MASTER_KEYS.THEME, theme);
-      db.set(MASTER_KEYS.MODE, productionMode);
-    }
-  }, [style, script, images, shots, theme, productionMode, isLoaded]);
-
-  // --- Canvas Core & Undo Logic ---
-  const syncCanvasSize = useCallback(() => {
-    const canvas = maskCanvasRef.current;
-    if (!canvas || !purifyInput) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const img = new Image();
-    img.onload = () => {
-      canvas.width = img.naturalWidth;
-      canvas.height = img.naturalHeight;
-      const history = maskHistory[purifyInput] || [];
-      if (history.length > 0) {
-        const maskImg = new Image();
-        maskImg.onload = () => ctx.drawImage(maskImg, 0, 0);
-        maskImg.src = history[history.length - 1];
-      } else {
-        ctx.fillStyle = 'black';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-      }
-    };
-    img.src = purifyInput;
-  }, [purifyInput, maskHistory]);
+    if (isLoaded) db.set(MASTER_KEYS.THEME, theme);
+  }, [theme, isLoaded]);
 
   useEffect(() => {
-    if (showPurifier && purifyInput) syncCanvasSize();
-  }, [purifyInput, showPurifier, syncCanvasSize]);
+    jobQueue.setConcurrency(concurrency);
+    if (isLoaded) db.set(MASTER_KEYS.CONCURRENCY, concurrency);
+  }, [concurrency, isLoaded]);
 
-  // Keyboard Shortcuts
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (!showPurifier) return;
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
-        e.preventDefault();
-        handleUndo();
-      }
-    };
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [showPurifier, purifyInput, maskHistory]);
+    setProviderSettings(providers);
+    if (isLoaded) db.set(MASTER_KEYS.PROVIDER, providers);
+  }, [providers, isLoaded]);
 
-  const handleUndo = () => {
-    if (!purifyInput) return;
-    const history = maskHistory[purifyInput] || [];
-    if (history.length <= 1) {
-      // If only one (or zero) states, clear to black
-      const ctx = maskCanvasRef.current?.getContext('2d');
-      if (ctx && maskCanvasRef.current) {
-        ctx.fillStyle = 'black';
-        ctx.fillRect(0, 0, maskCanvasRef.current.width, maskCanvasRef.current.height);
-      }
-      setMaskHistory(prev => ({ ...prev, [purifyInput]: [] }));
-    } else {
-      const nextHistory = history.slice(0, -1);
-      const lastState = nextHistory[nextHistory.length - 1];
-      const ctx = maskCanvasRef.current?.getContext('2d');
-      if (ctx && lastState) {
-        const img = new Image();
-        img.onload = () => {
-          ctx.fillStyle = 'black';
-          ctx.fillRect(0, 0, maskCanvasRef.current!.width, maskCanvasRef.current!.height);
-          ctx.drawImage(img, 0, 0);
-        };
-        img.src = lastState;
-      }
-      setMaskHistory(prev => ({ ...prev, [purifyInput]: nextHistory }));
+  // 增量落盘：只写入发生变化的记录
+  useEffect(() => {
+    if (isLoaded && currentProjectId) {
+      projectPersister.schedule(currentProjectId, { script, style, stylePresets, images, masks, references, shots, assets, mode: productionMode, castVoices });
     }
+  }, [style, stylePresets, script, images, masks, references, shots, productionMode, assets, castVoices, currentProjectId, isLoaded]);
+
+  // --- Projects ---
+  const currentSnapshot = (): ProjectSnapshot => ({ script, style, stylePresets, images, masks, references, shots, assets, mode: productionMode, castVoices });
+
+  // 新项目渲染后再释放旧项目独有的 Object URL，仍在屏幕上的图片不会失效
+  useEffect(() => {
+    if (currentProjectId) releaseMediaUrls(collectMediaRefs({ images, masks, shots, assets }));
+  }, [currentProjectId]);
+
+  const openProject = async (id: string) => {
+    stopPlayback();
+    applySnapshot(await projectPersister.load(id));
+    setCurrentProjectId(id);
+    saveLastProjectId(id);
   };
 
-  const getEventPos = (e: React.MouseEvent | React.TouchEvent) => {
-    const canvas = maskCanvasRef.current;
-    if (!canvas) return { x: 0, y: 0, viewX: 0, viewY: 0 };
-    const rect = canvas.getBoundingClientRect();
-    const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
-    const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
+  const switchProject = async (id: string) => {
+    if (id === currentProjectId) return;
+    await openProject(id);
+    log(`🎬 已切换到项目「${projects.find(p => p.id === id)?.name}」。`);
+  };
 
-    const canvasAspect = canvas.width / canvas.height;
-    const rectAspect = rect.width / rect.height;
-    
-    let actualWidth = rect.width;
-    let actualHeight = rect.height;
-    let offsetX = 0;
-    let offsetY = 0;
-
-    if (rectAspect > canvasAspect) {
-      actualWidth = rect.height * canvasAspect;
-      offsetX = (rect.width - actualWidth) / 2;
-    } else {
-      actualHeight = rect.width / canvasAspect;
-      offsetY = (rect.height - actualHeight) / 2;
-    }
+  const openNewProject = async (name: string, project: ProjectSnapshot) => {
+    const meta = createProjectMeta(name);
+    await createProject(meta, project);
+    setProjects(prev => [...prev, meta]);
+    await openProject(meta.id);
+    return meta;
+  };
 
-    const x = ((clientX - rect.left - offsetX) / actualWidth) * canvas.width;
-    const y = ((clientY - rect.top - offsetY) / actualHeight) * canvas.height;
+  const handleCreateProject = async (name: string) => {
+    await openNewProject(name, createEmptySnapshot());
+    log(`🆕 新建项目「${name}」。`);
+  };
 
-    return { x, y, viewX: clientX, viewY: clientY };
+  const handleRenameProject = (id: string, name: string) => {
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, name } : p));
+    renameProject(id, name);
   };
 
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-    if (purifyOutput) return;
-    setIsDrawing(true);
-    const { x, y } = getEventPos(e);
-    const ctx = maskCanvasRef.current?.getContext('2d');
-    if (ctx) {
-      ctx.beginPath();
-      ctx.moveTo(x, y);
-    }
+  const handleDuplicateProject = async (id: string) => {
+    const source = projects.find(p => p.id === id);
+    if (!source) return;
+    const project = id === currentProjectId ? currentSnapshot() : await readProject(id);
+    await openNewProject(`${source.name} 副本`, project);
+    log(`📑 已复制项目「${source.name}」。`);
   };
 
-  const draw = (e: React.MouseEvent | React.TouchEvent) => {
-    const pos = getEventPos(e);
-    setMousePos({ x: pos.viewX, y: pos.viewY });
-    if (!isDrawing) return;
-    const ctx = maskCanvasRef.current?.getContext('2d');
-    if (!ctx) return;
-    ctx.lineWidth = brushSize;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    ctx.strokeStyle = 'white';
-    ctx.lineTo(pos.x, pos.y);
-    ctx.stroke();
-  };
-
-  const stopDrawing = () => {
-    if (isDrawing) {
-      setIsDrawing(false);
-      if (maskCanvasRef.current && purifyInput) {
-        const dataUrl = maskCanvasRef.current.toDataURL();
-        setMaskHistory(prev => ({
-          ...prev,
-          [purifyInput]: [...(prev[purifyInput] || []), dataUrl]
-        }));
+  const handleDeleteProject = async (id: string) => {
+    const target = projects.find(p => p.id === id);
+    if (!target || !window.confirm(`确定删除项目「${target.name}」？此操作不可撤销。`)) return;
+    const remaining = projects.filter(p => p.id !== id);
+    if (id === currentProjectId) {
+      if (remaining.length === 0) {
+        const meta = createProjectMeta('未命名项目');
+        await createProject(meta, createEmptySnapshot());
+        remaining.push(meta);
       }
+      await openProject(remaining[0].id);
     }
+    setProjects(remaining);
+    await deleteProject(id);
+    log(`🗑️ 已删除项目「${target.name}」。`);
   };
 
-  const clearMask = () => {
+  // 遮罩的编辑统一经此写回，空遮罩会被移除
+  const updateMask = (image: string, update: (mask?: ImageMask) => ImageMask | undefined) =>
+    setMasks(prev => setImageMask(prev, image, update(prev[image])));
+
+  // 把当前图的遮罩套用到所选图片：同尺寸复用，同比例缩放，比例不同跳过
+  const handleCopyMask = async (source: ImageMask | undefined = purifyInput ? masks[purifyInput] : undefined) => {
+    const targets = Array.from(selectedInMatrix).filter(img => img !== purifyInput);
+    if (!source || targets.length === 0) return;
+    const results = await Promise.all(targets.map(async img => ({ img, ...await transferMask(source, img, masks[img]) })));
+    setMasks(prev => results.reduce((next, r) => r.mask ? setImageMask(next, r.img, r.mask) : next, prev));
+    const scaled = results.filter(r => r.fit === 'scale').length;
+    const skipped = results.filter(r => r.fit === 'mismatch').length;
+    log(`📋 遮罩已套用到 ${results.length - skipped} 张${scaled > 0 ? `（其中 ${scaled} 张按比例缩放）` : ''}${skipped > 0 ? `，${skipped} 张画幅比例不同已跳过` : ''}。`);
+  };
+
+  // 识别结果替换当前图已有的识别区域，手绘部分保留；applyToSelection 时同步到所选的同源截图
+  const handleDetect = async (applyToSelection = false) => {
     if (!purifyInput) return;
-    const ctx = maskCanvasRef.current?.getContext('2d');
-    if (ctx && maskCanvasRef.current) {
-      ctx.fillStyle = 'black';
-      ctx.fillRect(0, 0, maskCanvasRef.current.width, maskCanvasRef.current.height);
-      setMaskHistory(prev => ({ ...prev, [purifyInput]: [] }));
+    const image = purifyInput;
+    setIsDetecting(true);
+    setPanelError('purify');
+    try {
+      const regions = await jobQueue.run({ kind: 'detect', label: '识别叠加层' }, signal => detectOverlays(image, log, signal));
+      const size = await getImageSize(image);
+      updateMask(image, m => setMaskRegions(m, regions, size));
+      log(regions.length > 0 ? `🔍 识别到 ${regions.length} 处叠加层，可拖动调整或删除。` : '🔍 未识别到文字 / Logo / 界面叠加层。');
+      if (applyToSelection && regions.length > 0) await handleCopyMask(setMaskRegions(masks[image], regions, size));
+    } catch (e: any) {
+      setPanelError('purify', reportFailure(e, '叠加层识别'));
+    } finally {
+      setIsDetecting(false);
     }
   };
 
+  // 选中与当前图尺寸完全相同的样本，便于整批复用同一遮罩
+  const selectMatchingSize = async () => {
+    if (!purifyInput) return;
+    const { width, height } = await getImageSize(purifyInput);
+    const sizes = await Promise.all(images.map(async img => ({ img, size: await getImageSize(img).catch(() => null) })));
+    const matching = sizes.filter(({ size }) => size && size.width === width && size.height === height).map(({ img }) => img);
+    setSelectedInMatrix(new Set(matching));
+    log(`🎯 已选中 ${matching.length} 张 ${width}×${height} 的样本。`);
+  };
+
+  // 参考图删除后其遮罩与标记一并移除（同一图片的其他副本仍保留）
+  const removeImage = (index: number) => {
+    const ref = images[index];
+    const next = images.filter((_, idx) => idx !== index);
+    setImages(next);
+    if (!next.includes(ref)) {
+      setMasks(prev => setImageMask(prev, ref));
+      setReferences(prev => setReference(prev, ref));
+    }
+  };
+
+  const toggleDistillSource = (img: string) =>
+    setReferences(prev => setReference(prev, img, { ...prev[img], distill: !prev[img]?.distill }));
+
+  const toggleTag = (img: string, tag: ReferenceTag) =>
+    setReferences(prev => setReference(prev, img, toggleReferenceTag(prev[img], tag)));
+
+  // 上传 / 粘贴 / 拖入的图片统一压缩入库，排在序列最前；返回新图片引用
+  const addReferenceImages = async (files: File[]): Promise<string[]> => {
+    const newImgs = await importImageRefs(files);
+    if (newImgs.length === 0) return newImgs;
+    setImages(prev => [...newImgs, ...prev]);
+    log(`📥 已添加 ${newImgs.length} 张参考图。`);
+    return newImgs;
+  };
+
+  const handleReferenceUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    await addReferenceImages(files);
+  };
+
+  const handleArchiveDrop = async (e: React.DragEvent) => {
+    e.preventDefault(); setIsDraggingArchive(false);
+    await addReferenceImages(Array.from(e.dataTransfer.files) as File[]);
+  };
+
+  // 剪贴板中只有图片时直接收入参考图；输入框内的粘贴与带文字的富文本粘贴照常进行
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (e.clipboardData?.types.includes('text/plain')) return;
+      const files = Array.from(e.clipboardData?.files || []).filter(f => f.type.startsWith('image/'));
+      if (files.length === 0) return;
+      e.preventDefault();
+      addReferenceImages(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
   const toggleSelection = (img: string) => {
     setSelectedInMatrix(prev => {
       const next = new Set(prev);
@@ -262,104 +370,437 @@ const App: React.FC = () => {
 
   const handleBatchDrop = async (e: React.DragEvent) => {
     e.preventDefault(); setIsDraggingPurify(false);
-    if (!e.dataTransfer.files.length) return;
-    
-    const files = (Array.from(e.dataTransfer.files) as File[]).filter(f => f.type.startsWith('image/'));
-    const newImgs: string[] = [];
-    
-    for (const file of files) {
-      const base64 = await new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onload = (ev) => resolve(ev.target?.result as string);
-        reader.readAsDataURL(file);
-      });
-      const compressed = await compressImage(base64);
-      newImgs.push(compressed);
-    }
-
-    setImages(prev => [...newImgs, ...prev]);
+    const newImgs = await addReferenceImages(Array.from(e.dataTransfer.files) as File[]);
     if (newImgs.length > 0) {
       setPurifyInput(newImgs[0]);
       setPurifyOutput(null);
     }
-    log(`📥 矩阵已同步 ${newImgs.length} 个新样本。`);
   };
 
+
   const log = (msg: string) => setDirectorLog(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev.slice(0, 15)]);
 
-  const handlePurifyBatch = async () => {
-    const targets: string[] = Array.from(selectedInMatrix);
-    if (targets.length === 0) return;
-    
-    let maskData: string | undefined = undefined;
-    const canvas = maskCanvasRef.current;
-    if (canvas) {
-      const ctx = canvas.getContext('2d');
-      const pixels = ctx?.getImageData(0, 0, canvas.width, canvas.height).data;
-      let hasContent = false;
-      if (pixels) {
-        for (let i = 0; i < pixels.length; i += 4) {
-          if (pixels[i] > 20) { hasContent = true; break; }
-        }
+  // 取消不算失败；其余归类后写入日志，交给调用方挂到分镜或面板上
+  const reportFailure = (e: any, subject: string): StudioError | undefined => {
+    if (isCancelled(e)) {
+      log(`⏹️ ${subject}已取消。`);
+      return undefined;
+    }
+    console.error(e);
+    const error = toStudioError(e);
+    log(`❌ ${subject}失败 · ${formatError(error)}`);
+    return error;
+  };
+
+  const setPanelError = (panel: StudioPanel, error?: StudioError) => {
+    setPanelErrors(prev => {
+      const { [panel]: _, ...rest } = prev;
+      return error ? { ...rest, [panel]: error } : rest;
+    });
+  };
+
+  const dismissPanelError = (panel: StudioPanel) => {
+    setPanelError(panel);
+    if (panel === 'purify') setFailedBatch([]);
+    setStatus(s => s === AppStatus.ERROR ? AppStatus.IDLE : s);
+  };
+
+  const setShotError = (shotId: string, action: ShotAction, error?: StudioError) => {
+    setShots(p => p.map(it => {
+      if (it.id !== shotId || (!error && !it.errors?.[action])) return it;
+      const { [action]: _, ...rest } = it.errors || {};
+      const errors = error ? { ...rest, [action]: error } : rest;
+      return { ...it, errors: Object.keys(errors).length > 0 ? errors : undefined };
+    }));
+  };
+
+  // --- Style & Storyboard ---
+  const handleDistill = async () => {
+    setStatus(AppStatus.DISTILLING);
+    setPanelError('distill');
+    try {
+      const { images: sources, tags, isSubset } = distillSources;
+      setStyle(await jobQueue.run({ kind: 'distill', label: '提取视觉 DNA' }, signal => distillStyle(sources, tags, log, signal)));
+      log(`🎨 风格解析完成${isSubset ? `（基于选定的 ${sources.length} 张参考图）` : ''}。`);
+      setStatus(AppStatus.IDLE);
+    } catch (e: any) {
+      const error = reportFailure(e, '风格解析');
+      setPanelError('distill', error);
+      setStatus(error ? AppStatus.ERROR : AppStatus.IDLE);
+    }
+  };
+
+  // 单组推演：基于 current 推演并返回放入新镜后的分镜表；缺少必要输入而未执行时返回 undefined
+  const runDeduct = async (target: DeductTarget, current: Shot[]): Promise<Shot[] | undefined> => {
+    const continuity = buildContinuity(current, target);
+    const text = target.kind === 'scene' ? target.text : script;
+    // 续写 / 插入 / 拆机位可以只凭已有分镜推演；其余必须有剧本
+    if (!style || (!continuity && !text)) {
+      log(`⏭️ ${describeTarget(current, target, getTargetCount(target, shotCount))}已跳过：没有可推演的剧本内容。`);
+      return undefined;
+    }
+    if (!continuity && target.kind !== 'scene') target = { kind: 'fresh' };
+    const count = getTargetCount(target, shotCount);
+    const label = describeTarget(current, target, count);
+    const scene = getTargetScene(current, target);
+    // 拆机位沿用原镜的资产绑定，其余沿用当前启用的资产
+    const expanded = target.kind === 'expand' ? current.find(s => s.id === target.shotId) : undefined;
+    const fallbackAssetIds = expanded?.assetIds || assets.filter(a => a.isActive).map(a => a.id);
+    const newShots = (await jobQueue.run({ kind: 'deduct', label }, signal => deductStoryboard(text, style, count, productionMode, assets, continuity, log, signal)))
+      .map(s => ({ ...s, ...scene, assetIds: s.assetIds && s.assetIds.length > 0 ? s.assetIds : fallbackAssetIds }));
+    const placed = newShots.map(s => ({ ...s, isGenerating: autoRender }));
+    setShots(p => placeShots(p, placed, target));
+    if (autoRender) {
+      newShots.forEach(s => renderSingleShot(s));
+    } else {
+      log(`🧷 ${label}完成（${newShots.length} 镜），请确认资产绑定后渲染。`);
+    }
+    return placeShots(current, placed, target);
+  };
+
+  // 多组推演（如按场景全部推演）逐组执行，后一组的连续性基于前一组刚放入的分镜；失败的组留待重试
+  const handleDeduct = async (targets: DeductTarget[] = [{ kind: deductMode }]) => {
+    if (!style || targets.length === 0) return;
+    setStatus(AppStatus.DEDUCTING);
+    setPanelError('deduct');
+    let current = shots;
+    const failed: DeductTarget[] = [];
+    const errors: StudioError[] = [];
+    for (const target of targets) {
+      try {
+        current = (await runDeduct(target, current)) || current;
+      } catch (e) {
+        failed.push(target);
+        const error = reportFailure(e, describeTarget(current, target, getTargetCount(target, shotCount)));
+        if (error) errors.push(error);
       }
-      if (hasContent) maskData = canvas.toDataURL('image/jpeg', 0.8);
     }
+    lastDeductRef.current = failed.length > 0 ? failed : targets;
+    if (errors.length === 0) {
+      setStatus(AppStatus.IDLE);
+      return;
+    }
+    setPanelError('deduct', targets.length > 1 ? { ...errors[0], message: `${errors.length}/${targets.length} 组失败 · ${errors[0].message}` } : errors[0]);
+    setStatus(AppStatus.ERROR);
+  };
+
+  // 在编辑器中选中场景标题并滚动到该处
+  const jumpToScene = (scene: ScriptScene) => {
+    const el = scriptRef.current;
+    if (!el) return;
+    const lineEnd = script.indexOf('\n', scene.start);
+    el.focus();
+    el.setSelectionRange(scene.start, lineEnd < 0 ? script.length : lineEnd);
+    const lineHeight = parseFloat(getComputedStyle(el).lineHeight) || 32;
+    el.scrollTop = script.slice(0, scene.start).split('\n').length * lineHeight - lineHeight;
+  };
+
+  // --- Purifier ---
+  // 每张图使用各自保存的遮罩；没有遮罩的图交给模型自动识别。结果与失败项都进入审阅，不直接写入样本序列
+  const handlePurifyBatch = async (targets: string[] = Array.from(selectedInMatrix)) => {
+    if (targets.length === 0) return;
 
     setIsPurifying(true);
     setProcessingBatch(new Set(targets));
+    setFailedBatch([]);
+    setPanelError('purify');
     log(`🚀 启动批处理，目标: ${targets.length}`);
 
-    const finished = await Promise.all(targets.map(async (img: string) => {
+    // 并发与限流由任务队列统一控制
+    const errors: StudioError[] = [];
+    const failed: string[] = [];
+    const finished = await Promise.all(targets.map(async (img: string, i): Promise<PurifyReviewItem | null> => {
       try {
-        const res = await removeWatermark(img, maskData);
+        const mask = await composeMask(masks[img]);
+        const res = await jobQueue.run({ kind: 'purify', label: `批量净化 #${i + 1}` }, signal => removeWatermark(img, mask, undefined, signal));
         setProcessingBatch(prev => {
            const next = new Set(prev);
            next.delete(img);
            return next;
         });
-        return res;
+        return { original: img, result: res };
       } catch (err) {
-        console.error(`Failed: ${img.substring(0, 20)}`, err);
-        return null;
+        const error = reportFailure(err, `批量净化 #${i + 1}`);
+        if (error) {
+          errors.push(error);
+          failed.push(img);
+        }
+        setProcessingBatch(prev => {
+           const next = new Set(prev);
+           next.delete(img);
+           return next;
+        });
+        return error ? { original: img, error } : null;
       }
     }));
     
-    const successResults = finished.filter((r): r is string => !!r);
-    setImages(prev => [...successResults, ...prev]);
+    const reviews = finished.filter((r): r is PurifyReviewItem => !!r);
+    const successCount = reviews.filter(r => r.result).length;
+    // 同一原图的旧审阅项被本次结果取代
+    setPurifyReviews(prev => [...prev.filter(r => !targets.includes(r.original)), ...reviews]);
+    if (reviews.length > 0) setShowReview(true);
     setIsPurifying(false);
     setProcessingBatch(new Set());
     setSelectedInMatrix(new Set());
-    log(`✅ 批量净化完成: ${successResults.length} 成功。`);
+    // 失败的样本留待重试，面板上只展示第一条原因
+    if (errors.length > 0) {
+      setFailedBatch(failed);
+      setPanelError('purify', { ...errors[0], message: `${errors.length}/${targets.length} 张失败 · ${errors[0].message}` });
+    }
+    log(`✅ 批量净化完成: ${successCount} 成功${errors.length > 0 ? `，${errors.length} 失败` : ''}，请在审阅面板中确认。`);
   };
 
+  const updateReview = (original: string, patch: Partial<PurifyReviewItem>) =>
+    setPurifyReviews(prev => prev.map(r => r.original === original ? { ...r, ...patch } : r));
+
+  // 对单张原图带补充指令重新净化，结果替换审阅项中的旧结果
+  const retryReview = async (original: string, instruction: string) => {
+    updateReview(original, { isRetrying: true, error: undefined, instruction });
+    setProcessingBatch(prev => new Set(prev).add(original));
+    try {
+      const mask = await composeMask(masks[original]);
+      const result = await jobQueue.run({ kind: 'purify', label: '重新净化' }, signal => removeWatermark(original, mask, instruction || undefined, signal));
+      updateReview(original, { result, isRetrying: false });
+      setFailedBatch(prev => prev.filter(img => img !== original));
+      log('🔁 重新净化完成，等待审阅。');
+    } catch (e: any) {
+      updateReview(original, { isRetrying: false, error: reportFailure(e, '重新净化') });
+    } finally {
+      setProcessingBatch(prev => {
+        const next = new Set(prev);
+        next.delete(original);
+        return next;
+      });
+    }
+  };
+
+  // 接受的结果原位替换原图（原图已被删除则追加到最前），原图的遮罩随之移除
+  const acceptReviews = (originals: string[]) => {
+    const accepted = purifyReviews.filter(r => originals.includes(r.original) && r.result && !r.isRetrying);
+    if (accepted.length === 0) return;
+    const replacements = new Map(accepted.map(r => [r.original, r.result!]));
+    const swap = (img: string) => replacements.get(img) || img;
+    setImages(prev => [...accepted.filter(r => !prev.includes(r.original)).map(r => r.result!), ...prev.map(swap)]);
+    setMasks(prev => accepted.reduce((next, r) => setImageMask(next, r.original), prev));
+    setReferences(prev => accepted.reduce((next, r) => setReference(setReference(next, r.result!, prev[r.original]), r.original), prev));
+    setSelectedInMatrix(prev => new Set(Array.from(prev).map(swap)));
+    setFailedBatch(prev => prev.filter(img => !replacements.has(img)));
+    if (purifyInput && replacements.has(purifyInput)) {
+      setPurifyInput(swap(purifyInput));
+      setPurifyOutput(null);
+    }
+    setPurifyReviews(prev => prev.filter(r => !replacements.has(r.original)));
+    log(`✅ 已用净化结果替换 ${accepted.length} 张原图。`);
+  };
+
+  const rejectReview = (original: string) => setPurifyReviews(prev => prev.filter(r => r.original !== original));
+
   const handlePurifySingle = async () => {
     if (!purifyInput) return;
     setIsPurifying(true);
     setPurifyOutput(null);
+    setFailedBatch([]);
+    setPanelError('purify');
     try {
-      const canvas = maskCanvasRef.current;
-      let maskData: string | undefined = undefined;
-      if (canvas) {
-        const ctx = canvas.getContext('2d');
-        const pixels = ctx?.getImageData(0, 0, canvas.width, canvas.height).data;
-        let hasContent = false;
-        if (pixels) {
-          for (let i = 0; i < pixels.length; i += 4) {
-            if (pixels[i] > 20) { hasContent = true; break; }
-          }
-        }
-        if (hasContent) maskData = canvas.toDataURL('image/jpeg', 0.8);
-      }
-      const result = await removeWatermark(purifyInput, maskData);
+      const mask = await composeMask(masks[purifyInput]);
+      const result = await jobQueue.run({ kind: 'purify', label: '单张净化' }, signal => removeWatermark(purifyInput, mask, undefined, signal));
       setPurifyOutput(result);
       log('✨ 单张净化成功。');
     } catch (e: any) {
-      log(`❌ 净化失败: ${e.message}`);
+      setPanelError('purify', reportFailure(e, '净化'));
     } finally {
       setIsPurifying(false);
     }
   };
 
+  const toggleShotAsset = (shotId: string, assetId: string) => {
+    setShots(p => p.map(it => {
+      if (it.id !== shotId) return it;
+      const ids = it.assetIds || [];
+      return { ...it, assetIds: ids.includes(assetId) ? ids.filter(id => id !== assetId) : [...ids, assetId] };
+    }));
+  };
+
+  // 默认按镜头指定的风格预设渲染；A/B 对比时显式传入 styleId（null 为项目当前风格）
+  const renderSingleShot = async (shot: Shot, styleId: string | null = shot.styleId ?? null) => {
+    const { preset, style: look } = resolveStyle(styleId, stylePresets, style);
+    if (!look) return;
+    const inFlight = rendersInFlightRef.current;
+    inFlight[shot.id] = (inFlight[shot.id] || 0) + 1;
+    if (inFlight[shot.id] === 1) {
+      setShots(p => p.map(it => it.id === shot.id ? { ...it, isGenerating: true } : it));
+      setShotError(shot.id, 'render');
+    }
+    const { characters, scenes } = resolveShotAssets(shot, assets);
+    try {
+      const label = `渲染「${shot.name}」${preset ? ` · ${preset.name}` : ''}`;
+      const url = await jobQueue.run({ kind: 'render', label }, signal => renderShot(shot.englishPrompt, look, aspectRatio, characters, scenes, productionMode, signal));
+      setShots(p => p.map(it => it.id === shot.id ? addTake(it, url, shot.englishPrompt, preset?.name) : it));
+    } catch (e: any) {
+      setShotError(shot.id, 'render', reportFailure(e, `「${shot.name}」渲染`));
+    } finally {
+      if (--inFlight[shot.id] === 0) {
+        delete inFlight[shot.id];
+        setShots(p => p.map(it => it.id === shot.id ? { ...it, isGenerating: false } : it));
+      }
+    }
+  };
+
+  const updateShot = (shot: Shot) => setShots(p => p.map(it => it.id === shot.id ? shot : it));
+
+  // --- Style Presets ---
+  const canRenderShot = (shot: Shot) => !!resolveStyle(shot.styleId, stylePresets, style).style;
+
+  // 删除的预设不再被任何镜头引用，这些镜头回到项目当前风格
+  const updateStylePresets = (next: StylePreset[]) => {
+    const ids = new Set(next.map(p => p.id));
+    setShots(p => p.map(it => it.styleId && !ids.has(it.styleId) ? { ...it, styleId: undefined } : it));
+    setStylePresets(next);
+  };
+
+  const applyStylePreset = (preset: StylePreset) => {
+    setStyle(preset.style);
+    log(`🎨 当前风格已切换为「${preset.name}」。`);
+  };
+
+  // --- Project Bundle ---
+  const handleExportProject = async () => {
+    const name = projects.find(p => p.id === currentProjectId)?.name || 'promptflow';
+    downloadFile(await exportProjectBundle(currentSnapshot()), `${name}.zip`, 'application/zip');
+    log(`📦 工程包已导出 (${shots.length} 镜 / ${assets.length} 资产)。`);
+  };
+
+  // --- Script & Shot List Import ---
+  const handleImportScript = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setPanelError('deduct');
+    try {
+      const result = await importScriptFile(file, assets);
+      if (result.kind === 'script') {
+        if (script.trim() && !window.confirm(`用「${file.name}」替换当前剧本？`)) return;
+        setScript(result.script);
+        log(`📄 已导入剧本${result.title ? `「${result.title}」` : ''} (${result.format.toUpperCase()} · ${parseScript(result.script).scenes.length} 场)。`);
+        return;
+      }
+      if (result.shots.length === 0) throw new Error('分镜表中没有可用的分镜');
+      // 分镜表直接成镜，无需重新推演；与推演一样按控制台的方式放置（新生成放最前 / 续写接末尾），按当前视觉 DNA 渲染
+      setShots(p => placeShots(p, result.shots, { kind: deductMode }));
+      log(`📋 已从 ${result.format.toUpperCase()} 导入 ${result.shots.length} 个分镜${result.skipped > 0 ? `（跳过 ${result.skipped} 行）` : ''}。`);
+      if (autoRender && style) result.shots.forEach(s => renderSingleShot(s));
+    } catch (err) {
+      setPanelError('deduct', reportFailure(err, `导入「${file.name}」`));
+    }
+  };
+
+  const handleImportProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const project = await importProjectBundle(file);
+      await openNewProject(file.name.replace(/\.zip$/i, ''), project);
+      log(`📦 工程包已导入为新项目: ${file.name}`);
+    } catch (err: any) {
+      log(`❌ 工程包导入失败: ${err.message}`);
+    }
+  };
+
+  // --- Dialogue & Ambience Tracks ---
+  const handleGenerateVoice = async (shot: Shot) => {
+    if (!shot.dialogue) return;
+    const voiceName = assignVoice(shot.speaker, shot.gender, castVoices);
+    if (!castVoices[shot.speaker]) setCastVoices(prev => ({ ...prev, [shot.speaker]: voiceName }));
+    setShots(p => p.map(it => it.id === shot.id ? { ...it, isAudioLoading: true } : it));
+    setShotError(shot.id, 'voice');
+    try {
+      const voiceB64 = await jobQueue.run({ kind: 'voice', label: `配音「${shot.speaker}」` }, signal => generateVoice(shot.dialogue, voiceName, shot.emotion, signal));
+      setShots(p => p.map(it => it.id === shot.id ? { ...it, voiceB64 } : it));
+      log(`🎙️ 「${shot.speaker}」台词配音完成 (${voiceName})。`);
+    } catch (e: any) {
+      setShotError(shot.id, 'voice', reportFailure(e, `「${shot.speaker}」配音`));
+    } finally {
+      setShots(p => p.map(it => it.id === shot.id ? { ...it, isAudioLoading: false } : it));
+    }
+  };
+
+  const handleGenerateAmbience = async (shot: Shot) => {
+    if (!shot.ambientSfx) return;
+    setShots(p => p.map(it => it.id === shot.id ? { ...it, isAmbientLoading: true } : it));
+    setShotError(shot.id, 'ambience');
+    try {
+      const ambientB64 = await jobQueue.run({ kind: 'ambience', label: `环境声「${shot.name}」` }, signal => generateAmbience(shot.ambientSfx, undefined, signal));
+      setShots(p => p.map(it => it.id === shot.id ? { ...it, ambientB64 } : it));
+      log(`🌊 环境声已生成: ${shot.ambientSfx}`);
+    } catch (e: any) {
+      setShotError(shot.id, 'ambience', reportFailure(e, `「${shot.name}」环境声`));
+    } finally {
+      setShots(p => p.map(it => it.id === shot.id ? { ...it, isAmbientLoading: false } : it));
+    }
+  };
+
+  // --- Motion Clips ---
+  const toggleStillOnly = (shotId: string) => {
+    setStillOnly(prev => {
+      const next = new Set(prev);
+      if (next.has(shotId)) next.delete(shotId);
+      else next.add(shotId);
+      return next;
+    });
+  };
+
+  const handleAnimateShot = async (shot: Shot) => {
+    if (!shot.imageUrl) return;
+    const takeId = getHeroTakeId(shot);
+    setShots(p => p.map(it => it.id === shot.id ? { ...it, isVideoGenerating: true } : it));
+    setShotError(shot.id, 'video');
+    log(`🎞️ 「${shot.name}」开始生成动态镜头...`);
+    try {
+      const videoUrl = await jobQueue.run({ kind: 'video', label: `动态镜头「${shot.name}」` }, signal => animateShot(shot.imageUrl!, shot, aspectRatio, msg => log(`⏳ 「${shot.name}」${msg}`), signal));
+      setShots(p => p.map(it => it.id === shot.id ? setTakeVideo(it, takeId, videoUrl) : it));
+      setStillOnly(prev => { const next = new Set(prev); next.delete(shot.id); return next; });
+      log(`✅ 「${shot.name}」动态镜头完成。`);
+    } catch (e: any) {
+      setShotError(shot.id, 'video', reportFailure(e, `「${shot.name}」动态镜头`));
+    } finally {
+      setShots(p => p.map(it => it.id === shot.id ? { ...it, isVideoGenerating: false } : it));
+    }
+  };
+
+  const retryShotAction = (shot: Shot, action: ShotAction) => {
+    if (action === 'render') renderSingleShot(shot);
+    else if (action === 'video') handleAnimateShot(shot);
+    else if (action === 'voice') handleGenerateVoice(shot);
+    else handleGenerateAmbience(shot);
+  };
+
+  const stopPlayback = () => {
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+    setPlayingShotId(null);
+  };
+
+  const handlePlayShot = (shot: Shot) => {
+    const isSame = playingShotId === shot.id;
+    stopPlayback();
+    if (isSame || (!shot.voiceB64 && !shot.ambientB64)) return;
+    const tracks: PlaybackTrack[] = [];
+    if (shot.voiceB64) tracks.push({ b64: shot.voiceB64 });
+    // 环境声铺在台词之下：有台词时循环至台词结束
+    if (shot.ambientB64) tracks.push({ b64: shot.ambientB64, volume: shot.ambientVolume ?? DEFAULT_AMBIENT_VOLUME, loop: !!shot.voiceB64 });
+    const handle = playTracks(tracks);
+    playbackRef.current = handle;
+    setPlayingShotId(shot.id);
+    handle.ended.then(() => {
+      if (playbackRef.current === handle) {
+        playbackRef.current = null;
+        setPlayingShotId(null);
+      }
+    });
+  };
+
+  const editingShot = shots.find(s => s.id === editingShotId);
   const isDark = theme === 'dark';
   const glass = isDark ? 'bg-[#121217]/80 backdrop-blur-xl border-white/5' : 'bg-white/80 backdrop-blur-xl border-black/5 shadow-sm';
 
@@ -371,8 +812,25 @@ const App: React.FC = () => {
         <div className="flex items-center gap-4">
           <div className="w-10 h-10 bg-blue-600 rounded-xl flex items-center justify-center font-black text-white shadow-lg shadow-blue-600/20">PF</div>
           <h1 className="font-black text-xs tracking-widest uppercase italic">Director's Studio <span className="text-blue-500 ml-1">V30.0</span></h1>
+          <ProjectSwitcher
+            projects={projects}
+            currentId={currentProjectId}
+            isDark={isDark}
+            onSwitch={switchProject}
+            onCreate={handleCreateProject}
+            onRename={handleRenameProject}
+            onDuplicate={handleDuplicateProject}
+            onDelete={handleDeleteProject}
+          />
         </div>
         <div className="flex items-center gap-6">
+          <ProviderPicker settings={providers} isDark={isDark} onChange={setProviders} />
+          <QueuePanel isDark={isDark} concurrency={concurrency} onConcurrencyChange={setConcurrency} />
+          <button onClick={() => setShowAssetManager(true)} className="px-6 py-2 bg-violet-500/10 text-violet-400 border border-violet-500/20 rounded-full text-[10px] font-black uppercase hover:bg-violet-500 hover:text-white transition-all shadow-lg">资产库 ({assets.length})</button>
+          <button onClick={() => bundleInputRef.current?.click()} title="导入工程包 (.zip)" className="w-10 h-10 rounded-xl bg-white/5 flex items-center justify-center border border-white/5 text-lg">📂</button>
+          <button onClick={handleExportProject} title="导出工程包 (.zip)" className="w-10 h-10 rounded-xl bg-white/5 flex items-center justify-center border border-white/5 text-lg">📦</button>
+          <input ref={bundleInputRef} type="file" accept=".zip,application/zip" onChange={handleImportProject} className="hidden" />
+          <button onClick={() => setShowExport(true)} className="px-6 py-2 bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 rounded-full text-[10px] font-black uppercase hover:bg-emerald-500 hover:text-white transition-all shadow-lg">导出脚本</button>
           <button onClick={() => setShowPurifier(true)} className="px-6 py-2 bg-cyan-500/10 text-cyan-400 border border-cyan-500/20 rounded-full text-[10px] font-black uppercase hover:bg-cyan-500 hover:text-white transition-all shadow-lg">启动净化矩阵</button>
           <button onClick={() => setTheme(isDark ? 'light' : 'dark')} className="w-10 h-10 rounded-xl bg-white/5 flex items-center justify-center border border-white/5 text-lg">
             {isDark ? '☀️' : '🌙'}
@@ -384,34 +842,73 @@ const App: React.FC = () => {
       <main className="flex-1 grid grid-cols-1 lg:grid-cols-[300px_1fr_420px] gap-6 p-6 overflow-hidden">
         
         {/* DNA Archive */}
-        <aside className={`rounded-[32px] border p-6 flex flex-col gap-6 overflow-hidden ${glass}`}>
+        <aside
+          onDragOver={e => { e.preventDefault(); setIsDraggingArchive(true); }}
+          onDragLeave={e => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingArchive(false); }}
+          onDrop={handleArchiveDrop}
+          className={`rounded-[32px] border p-6 flex flex-col gap-6 overflow-hidden transition-all ${glass} ${isDraggingArchive ? 'ring-2 ring-blue-500' : ''}`}
+        >
           <div className="flex justify-between items-center">
             <span className="text-[10px] font-black uppercase opacity-40 tracking-widest">视觉 DNA 存档</span>
             <div className={`w-2 h-2 rounded-full ${style ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`}></div>
           </div>
           <div className="grid grid-cols-3 gap-3 overflow-y-auto scrollbar-hide flex-1 max-h-[250px]">
-             {images.map((img, i) => (
-               <div key={i} className="aspect-square relative group rounded-2xl overflow-hidden border border-white/5">
-                 <img src={img} className="w-full h-full object-cover group-hover:scale-110 transition-transform cursor-pointer" />
-                 <button onClick={() => setImages(p => p.filter((_, idx) => idx !== i))} className="absolute top-1 right-1 w-5 h-5 bg-red-500 text-white rounded-full text-[10px] hidden group-hover:flex items-center justify-center">×</button>
-               </div>
-             ))}
-             <div className="aspect-square border-2 border-dashed border-current opacity-20 rounded-2xl flex items-center justify-center text-3xl hover:opacity-100 transition-all cursor-pointer">+</div>
+             {images.map((img, i) => {
+               const meta = references[img];
+               return (
+                 <div key={i} className={`aspect-square relative group rounded-2xl overflow-hidden border ${meta?.distill ? 'border-blue-500 ring-1 ring-blue-500' : 'border-white/5'}`}>
+                   <MediaImage src={img} onClick={() => toggleDistillSource(img)} title={meta?.distill ? '取消作为风格提取来源' : '标记为风格提取来源'} className="w-full h-full object-cover group-hover:scale-110 transition-transform cursor-pointer" />
+                   {meta?.distill && <span className="absolute top-1 left-1 w-5 h-5 bg-blue-600 text-white rounded-full text-[10px] flex items-center justify-center pointer-events-none">✓</span>}
+                   <div className="absolute bottom-1 inset-x-1 flex justify-center gap-0.5">
+                     {REFERENCE_TAGS.map(tag => (
+                       <button key={tag} onClick={() => toggleTag(img, tag)} title={`参考其${REFERENCE_TAG_META[tag].label}`} className={`w-5 h-5 rounded-full text-[9px] items-center justify-center transition-all ${meta?.tags?.includes(tag) ? 'flex bg-blue-600/90' : 'hidden group-hover:flex bg-black/60 opacity-60 hover:opacity-100'}`}>{REFERENCE_TAG_META[tag].icon}</button>
+                     ))}
+                   </div>
+                   <button onClick={() => removeImage(i)} className="absolute top-1 right-1 w-5 h-5 bg-red-500 text-white rounded-full text-[10px] hidden group-hover:flex items-center justify-center">×</button>
+                 </div>
+               );
+             })}
+             <button onClick={() => referenceInputRef.current?.click()} title="上传参考图（也可直接粘贴或拖入）" className="aspect-square border-2 border-dashed border-current opacity-20 rounded-2xl flex items-center justify-center text-3xl hover:opacity-100 transition-all cursor-pointer">+</button>
+             <input ref={referenceInputRef} type="file" accept="image/*" multiple onChange={handleReferenceUpload} className="hidden" />
           </div>
-          <button onClick={async () => {
-             setStatus(AppStatus.DISTILLING);
-             try { setStyle(await distillStyle(images)); log('🎨 风格解析完成。'); } finally { setStatus(AppStatus.IDLE); }
-          }} className="w-full py-4 bg-blue-600 rounded-2xl text-[10px] font-black uppercase tracking-widest text-white hover:brightness-110 shadow-xl shadow-blue-600/20">提取核心视觉</button>
-          <div className="flex-1 rounded-3xl bg-black/20 p-6 border border-white/5 overflow-y-auto scrollbar-hide">
-             {style ? <p className="text-xs leading-relaxed opacity-80 italic">{style.summary}</p> : <div className="h-full flex items-center justify-center opacity-10 text-[10px] uppercase font-black tracking-[0.3em]">待机中</div>}
+          <button onClick={handleDistill} disabled={status === AppStatus.DISTILLING || images.length === 0} className="w-full py-4 bg-blue-600 rounded-2xl text-[10px] font-black uppercase tracking-widest text-white hover:brightness-110 shadow-xl shadow-blue-600/20 disabled:opacity-50">{status === AppStatus.DISTILLING ? '解析中...' : distillSources.isSubset ? `提取核心视觉 · ${distillSources.images.length} 张` : '提取核心视觉'}</button>
+          {panelErrors.distill && <ErrorNotice error={panelErrors.distill} title="风格解析" onRetry={handleDistill} onDismiss={() => dismissPanelError('distill')} />}
+          <div className="flex-1 rounded-3xl bg-black/20 p-6 border border-white/5 overflow-y-auto scrollbar-hide flex flex-col gap-4">
+             {style ? (
+               <>
+                 <p className="text-xs leading-relaxed opacity-80 italic">{style.summary}</p>
+                 {style.hexCodes.length > 0 && (
+                   <div className="flex gap-1.5">
+                     {style.hexCodes.map((hex, i) => <span key={i} title={hex} className="w-5 h-5 rounded-full border border-white/10" style={{ background: hex }} />)}
+                   </div>
+                 )}
+                 {style.keywords && <p className="text-[9px] opacity-40 leading-relaxed">{style.keywords}</p>}
+               </>
+             ) : <div className="h-full flex items-center justify-center opacity-10 text-[10px] uppercase font-black tracking-[0.3em]">待机中</div>}
+             <button onClick={() => setShowStyleEditor(true)} className="mt-auto w-full py-2 rounded-xl bg-white/5 text-[9px] font-black uppercase tracking-widest hover:bg-white/10 transition-all">✏️ 编辑风格 / 预设</button>
           </div>
+          {stylePresets.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {stylePresets.map(preset => (
+                <button key={preset.id} onClick={() => applyStylePreset(preset)} title="设为当前风格" className={`px-3 py-1 rounded-full text-[9px] font-black border transition-all ${isSameStyle(preset.style, style) ? 'border-blue-500 bg-blue-500/20 text-blue-400' : 'border-white/10 opacity-60 hover:opacity-100'}`}>{preset.name}</button>
+              ))}
+            </div>
+          )}
         </aside>
 
         {/* Script Console */}
         <section className={`rounded-[40px] border p-8 flex flex-col gap-6 overflow-hidden ${glass}`}>
-           <textarea value={script} onChange={(e) => setScript(e.target.value)} placeholder="在此撰写你的剧本描述..." className="flex-1 bg-transparent border-none outline-none resize-none text-lg font-medium leading-loose placeholder:opacity-20" />
+           <div className="flex-1 flex gap-6 min-h-0">
+             <textarea ref={scriptRef} value={script} onChange={(e) => setScript(e.target.value)} placeholder="在此撰写你的剧本描述...（可用 INT. / EXT. 或「第一场」「场景二」等标题分场，「角色：台词」书写对白）" className="flex-1 bg-transparent border-none outline-none resize-none text-lg font-medium leading-loose placeholder:opacity-20" />
+             {(parsedScript.hasHeadings || parsedScript.characters.length > 0) && (
+               <ScriptOutline parsed={parsedScript} shots={shots} isDark={isDark} canDeduct={!!style && status !== AppStatus.DEDUCTING} onJump={jumpToScene} onDeduct={handleDeduct} />
+             )}
+           </div>
            <div className="h-16 flex items-center justify-between px-6 bg-black/20 rounded-3xl border border-white/5">
               <div className="flex items-center gap-4">
+                <button onClick={() => scriptInputRef.current?.click()} title="导入 Fountain / Final Draft 剧本，或 CSV / TSV 分镜表" className="text-[10px] font-black uppercase opacity-60 hover:opacity-100">📄 导入</button>
+                <input ref={scriptInputRef} type="file" accept={IMPORT_ACCEPT} onChange={handleImportScript} className="hidden" />
+                <div className="w-px h-4 bg-white/10"></div>
                 <select value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value)} className="bg-transparent text-[10px] font-black uppercase border-none outline-none">
                   <option value="16:9">16:9</option>
                   <option value="9:16">9:16</option>
@@ -419,37 +916,136 @@ const App: React.FC = () => {
                 </select>
                 <div className="w-px h-4 bg-white/10"></div>
                 <div className="flex gap-2">
-                  {[1, 2, 4].map(n => <button key={n} onClick={() => setShotCount(n)} className={`w-8 h-8 rounded-lg text-[10px] font-black transition-all ${shotCount === n ? 'bg-blue-600 text-white' : 'opacity-20 hover:opacity-100'}`}>{n}</button>)}
+                  {SHOT_COUNT_PRESETS.map(n => <button key={n} onClick={() => setShotCount(n)} className={`w-8 h-8 rounded-lg text-[10px] font-black transition-all ${shotCount === n ? 'bg-blue-600 text-white' : 'opacity-20 hover:opacity-100'}`}>{n}</button>)}
+                  <input type="number" min={1} max={MAX_SHOT_COUNT} value={shotCount} onChange={e => setShotCount(Math.max(1, Math.min(MAX_SHOT_COUNT, parseInt(e.target.value) || 1)))} title="自定义镜头数" className={`w-10 h-8 rounded-lg bg-transparent text-center text-[10px] font-black outline-none border border-white/10 ${SHOT_COUNT_PRESETS.includes(shotCount) ? 'opacity-20 hover:opacity-100' : 'text-blue-400'}`} />
+                </div>
+                <div className="w-px h-4 bg-white/10"></div>
+                <label className="flex items-center gap-2 text-[10px] font-black uppercase cursor-pointer opacity-60 hover:opacity-100" title="关闭后可在渲染前逐镜调整资产绑定">
+                  <input type="checkbox" checked={autoRender} onChange={e => setAutoRender(e.target.checked)} className="accent-blue-600" />
+                  自动渲染
+                </label>
+                <div className="w-px h-4 bg-white/10"></div>
+                <div className="flex bg-black/20 p-1 rounded-xl">
+                  {([['fresh', '新段落'], ['continue', '续写']] as const).map(([v, label]) => (
+                    <button key={v} onClick={() => setDeductMode(v)} disabled={v === 'continue' && shots.length === 0} title={v === 'continue' ? '把已有分镜作为上下文，接在末尾继续推演' : '按剧本推演一组新的分镜，放在最前'} className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase transition-all disabled:opacity-10 ${deductMode === v ? 'bg-blue-600 text-white' : 'opacity-40 hover:opacity-100'}`}>{label}</button>
+                  ))}
                 </div>
               </div>
-              <button onClick={async () => {
-                if (!style || !script) return;
-                setStatus(AppStatus.DEDUCTING);
-                try {
-                  const newShots = await deductStoryboard(script, style, shotCount, productionMode);
-                  setShots(p => [...newShots.map(s => ({ ...s, isGenerating: true })), ...p]);
-                  for (const s of newShots) {
-                    const url = await renderShot(s.englishPrompt, style, aspectRatio, [], [], productionMode);
-                    setShots(p => p.map(it => it.id === s.id ? { ...it, imageUrl: url, isGenerating: false } : it));
-                  }
-                } finally { setStatus(AppStatus.IDLE); }
-              }} className="px-10 py-3 bg-white text-black rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-blue-600 hover:text-white transition-all shadow-lg">生成分镜</button>
+              <button onClick={() => handleDeduct()} disabled={status === AppStatus.DEDUCTING} className="px-10 py-3 bg-white text-black rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-blue-600 hover:text-white transition-all shadow-lg disabled:opacity-50">{status === AppStatus.DEDUCTING ? '推演中...' : deductMode === 'continue' && shots.length > 0 ? '续写分镜' : '生成分镜'}</button>
            </div>
+           {panelErrors.deduct && <ErrorNotice error={panelErrors.deduct} title="分镜推演" onRetry={() => handleDeduct(lastDeductRef.current)} onDismiss={() => dismissPanelError('deduct')} />}
+           {directorLog.length > 0 && (
+             <div className="h-24 shrink-0 overflow-y-auto scrollbar-hide px-6 py-3 rounded-3xl bg-black/20 border border-white/5 font-mono text-[10px] leading-relaxed opacity-60">
+               {directorLog.map((line, i) => <p key={i} className="truncate">{line}</p>)}
+             </div>
+           )}
         </section>
 
         {/* Live Monitor */}
         <aside className={`rounded-[32px] border p-6 flex flex-col gap-6 overflow-hidden ${glass}`}>
-          <span className="text-[10px] font-black uppercase opacity-40 tracking-widest">分镜监控流</span>
+          <div className="flex justify-between items-center">
+            <span className="text-[10px] font-black uppercase opacity-40 tracking-widest">分镜监控流</span>
+            <div className="flex bg-black/20 p-1 rounded-xl">
+              {([['list', '监控'], ['timeline', '时间线']] as const).map(([v, label]) => (
+                <button key={v} onClick={() => setMonitorView(v)} className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase transition-all ${monitorView === v ? 'bg-blue-600 text-white' : 'opacity-40 hover:opacity-100'}`}>{label}</button>
+              ))}
+            </div>
+          </div>
+          {monitorView === 'timeline' ? <AnimaticTimeline shots={shots} onChange={setShots} /> : (
           <div className="flex-1 overflow-y-auto space-y-6 pr-2 scrollbar-hide pb-20">
-            {shots.map(shot => (
-              <div key={shot.id} className="p-4 rounded-3xl bg-white/[0.02] border border-white/5 group">
+            {shots.map((shot, index) => (
+              <React.Fragment key={shot.id}>
+              {index > 0 && (
+                <button onClick={() => handleDeduct([{ kind: 'insert', afterId: shots[index - 1].id }])} disabled={!style || status === AppStatus.DEDUCTING} title={`在「${shots[index - 1].name}」与「${shot.name}」之间推演过渡分镜`} className="w-full py-1 rounded-full border border-dashed border-white/10 text-[8px] font-black uppercase opacity-0 hover:opacity-60 disabled:hidden transition-all">＋ 插入 {shotCount} 个过渡分镜</button>
+              )}
+              <div className="p-4 rounded-3xl bg-white/[0.02] border border-white/5 group">
                 <div className="aspect-video bg-black rounded-2xl overflow-hidden mb-4 relative shadow-2xl">
-                  {shot.imageUrl ? <img src={shot.imageUrl} className="w-full h-full object-cover" /> : <div className="absolute inset-0 flex items-center justify-center animate-pulse opacity-20 text-[10px] font-black uppercase">绘制中...</div>}
+                  {shot.videoUrl && !stillOnly.has(shot.id) ? <MediaVideo src={shot.videoUrl} autoPlay loop muted playsInline className="w-full h-full object-cover" /> : shot.imageUrl ? <MediaImage src={shot.imageUrl} className="w-full h-full object-cover" /> : shot.isGenerating ? <div className="absolute inset-0 flex items-center justify-center animate-pulse opacity-20 text-[10px] font-black uppercase">绘制中...</div> : (
+                    <button onClick={() => renderSingleShot(shot)} disabled={!canRenderShot(shot)} className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-[10px] font-black uppercase opacity-40 hover:opacity-100 transition-all">
+                      {shot.errors?.render ? <><span className="text-2xl">⚠️</span>渲染失败 · 点击重试</> : <><span className="text-2xl">🎬</span>待渲染 · 点击开始</>}
+                    </button>
+                  )}
+                  {shot.imageUrl && (
+                    <div className="absolute bottom-2 right-2 flex gap-2">
+                      {shot.videoUrl && (
+                        <button onClick={() => toggleStillOnly(shot.id)} className="px-3 py-1 rounded-full bg-black/60 backdrop-blur text-[8px] font-black uppercase text-white hover:bg-black/80">{stillOnly.has(shot.id) ? '▶ 动态' : '◼ 静帧'}</button>
+                      )}
+                      <button onClick={() => handleAnimateShot(shot)} disabled={shot.isVideoGenerating} title={shot.videoUrl ? '重新生成动态镜头' : '生成动态镜头'} className="px-3 py-1 rounded-full bg-black/60 backdrop-blur text-[8px] font-black uppercase text-white opacity-0 group-hover:opacity-100 hover:bg-black/80 transition-all">{shot.videoUrl ? '🔄 重拍' : '🎞️ 动态化'}</button>
+                    </div>
+                  )}
+                  <div className="absolute top-2 left-2 flex gap-2">
+                    <button onClick={() => setEditingShotId(shot.id)} title="编辑分镜 / 渲染记录" className="px-3 py-1 rounded-full bg-black/60 backdrop-blur text-[8px] font-black uppercase text-white opacity-0 group-hover:opacity-100 hover:bg-black/80 transition-all">✏️ 编辑</button>
+                    <button onClick={() => handleDeduct([{ kind: 'expand', shotId: shot.id }])} disabled={!style || status === AppStatus.DEDUCTING} title={`把这一镜拆成 ${shotCount} 个覆盖机位`} className="px-3 py-1 rounded-full bg-black/60 backdrop-blur text-[8px] font-black uppercase text-white opacity-0 group-hover:opacity-100 hover:bg-black/80 disabled:hidden transition-all">🎥 拆机位</button>
+                    {shot.styleId && (
+                      <span className="px-3 py-1 rounded-full bg-blue-600/60 backdrop-blur text-[8px] font-black uppercase text-white">🎨 {stylePresets.find(p => p.id === shot.styleId)?.name}</span>
+                    )}
+                    {getShotTakes(shot).length > 1 && (
+                      <span className="px-3 py-1 rounded-full bg-black/60 backdrop-blur text-[8px] font-black uppercase text-white">{getShotTakes(shot).length} 条</span>
+                    )}
+                  </div>
+                  {shot.isVideoGenerating && (
+                    <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center gap-3">
+                      <div className="w-6 h-6 border-2 border-t-fuchsia-400 border-white/10 rounded-full animate-spin"></div>
+                      <span className="text-[8px] font-black uppercase tracking-widest text-fuchsia-300 animate-pulse">动态镜头生成中</span>
+                    </div>
+                  )}
                 </div>
                 <p className="text-[11px] leading-relaxed opacity-70 italic line-clamp-2">{shot.chineseDescription}</p>
+                {shot.errors && (
+                  <div className="flex flex-col gap-2 mt-3">
+                    {(Object.keys(SHOT_ACTION_LABELS) as ShotAction[]).filter(action => shot.errors?.[action]).map(action => (
+                      <ErrorNotice key={action} compact error={shot.errors![action]!} title={SHOT_ACTION_LABELS[action]} onRetry={() => retryShotAction(shot, action)} onDismiss={() => setShotError(shot.id, action)} />
+                    ))}
+                  </div>
+                )}
+                {(shot.dialogue || shot.ambientSfx) && (
+                  <div className="flex items-center gap-3 mt-3 p-2 rounded-2xl bg-black/20 border border-white/5">
+                    <button onClick={() => handlePlayShot(shot)} disabled={!shot.voiceB64 && !shot.ambientB64} title={playingShotId === shot.id ? '停止' : '试听音轨'} className={`w-8 h-8 shrink-0 rounded-xl flex items-center justify-center text-xs transition-all ${shot.voiceB64 || shot.ambientB64 ? 'bg-blue-600 text-white hover:brightness-110' : 'bg-white/5 opacity-20'}`}>{playingShotId === shot.id ? '■' : '▶'}</button>
+                    <div className="flex-1 min-w-0 space-y-2">
+                      {shot.dialogue && (
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-[10px] truncate"><span className="font-black text-blue-400">{shot.speaker}</span> · {shot.dialogue}</p>
+                            <select value={castVoices[shot.speaker] || ''} onChange={e => setCastVoices(prev => ({ ...prev, [shot.speaker]: e.target.value }))} title="该角色在所有分镜中使用的音色" className="bg-transparent text-[8px] font-black uppercase opacity-40 hover:opacity-100 outline-none">
+                              <option value="">自动选角 ({shot.emotion})</option>
+                              {(VOICE_POOLS[shot.gender] || VOICE_POOLS.narrator).map(v => <option key={v} value={v}>{v}</option>)}
+                            </select>
+                          </div>
+                          <button onClick={() => handleGenerateVoice(shot)} disabled={shot.isAudioLoading} title={shot.voiceB64 ? '重新配音' : '生成配音'} className="w-7 h-7 shrink-0 rounded-lg bg-white/5 hover:bg-white/10 flex items-center justify-center text-[10px]">
+                            {shot.isAudioLoading ? <div className="w-3 h-3 border-2 border-t-blue-400 border-white/10 rounded-full animate-spin"></div> : shot.voiceB64 ? '🔄' : '🎙️'}
+                          </button>
+                        </div>
+                      )}
+                      {shot.ambientSfx && (
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-[10px] truncate opacity-60">🌫️ {shot.ambientSfx}</p>
+                            <input type="range" min="0" max="100" value={Math.round((shot.ambientVolume ?? DEFAULT_AMBIENT_VOLUME) * 100)} onChange={e => setShots(p => p.map(it => it.id === shot.id ? { ...it, ambientVolume: parseInt(e.target.value) / 100 } : it))} title="环境声音量" className="w-full h-1 accent-teal-400" />
+                          </div>
+                          <button onClick={() => handleGenerateAmbience(shot)} disabled={shot.isAmbientLoading} title={shot.ambientB64 ? '重新生成环境声' : '生成环境声'} className="w-7 h-7 shrink-0 rounded-lg bg-white/5 hover:bg-white/10 flex items-center justify-center text-[10px]">
+                            {shot.isAmbientLoading ? <div className="w-3 h-3 border-2 border-t-teal-400 border-white/10 rounded-full animate-spin"></div> : shot.ambientB64 ? '🔄' : '🌊'}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+                {assets.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {assets.map(a => {
+                      const bound = shot.assetIds?.includes(a.id);
+                      const tone = a.type === 'character' ? 'bg-violet-500/10 text-violet-400 border-violet-500/30' : 'bg-amber-500/10 text-amber-400 border-amber-500/30';
+                      return (
+                        <button key={a.id} disabled={shot.isGenerating} onClick={() => toggleShotAsset(shot.id, a.id)} title={bound ? '点击解除绑定' : '点击绑定到此分镜'} className={`px-2 py-0.5 rounded-full text-[8px] font-black uppercase border transition-all ${bound ? tone : 'border-white/5 opacity-20 hover:opacity-60'}`}>{a.name}</button>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
+              </React.Fragment>
             ))}
           </div>
+          )}
         </aside>
       </main>
 
@@ -475,13 +1071,24 @@ const App: React.FC = () => {
 
            <div className="flex-1 flex overflow-hidden">
               {/* Batch Sidebar */}
-              <aside className="w-[300px] border-r border-white/10 bg-black/60 flex flex-col p-8 overflow-hidden">
+              <aside
+                onDragOver={e => { e.preventDefault(); setIsDraggingPurify(true); }}
+                onDragLeave={e => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingPurify(false); }}
+                onDrop={handleBatchDrop}
+                className={`w-[300px] border-r border-white/10 flex flex-col p-8 overflow-hidden transition-all ${isDraggingPurify ? 'bg-cyan-500/10 ring-2 ring-inset ring-cyan-400' : 'bg-black/60'}`}
+              >
                  <span className="text-[10px] font-black uppercase text-white/30 tracking-widest mb-6">样本序列 ({images.length})</span>
                  <div className="flex-1 overflow-y-auto space-y-4 pr-3 scrollbar-hide">
                     {images.map((img, idx) => (
                       <div key={idx} className="relative group">
                         <div onClick={() => { setPurifyInput(img); setPurifyOutput(null); }} className={`relative aspect-video rounded-xl overflow-hidden cursor-pointer transition-all border-2 ${purifyInput === img ? 'border-cyan-500 scale-95 shadow-2xl shadow-cyan-500/40' : 'border-transparent opacity-30 hover:opacity-100'}`}>
-                          <img src={img} className="w-full h-full object-cover" />
+                          <MediaImage src={img} className="w-full h-full object-cover" />
+                          {masks[img] && (
+                            <div className="absolute bottom-2 left-2 px-2 py-0.5 rounded-full bg-cyan-500/80 text-[8px] font-black" title={`已保存遮罩 · 手绘 ${masks[img].ops.length} 步 · 识别区域 ${masks[img].regions?.length || 0} 处`}>🎭 遮罩</div>
+                          )}
+                          {failedBatch.includes(img) && !processingBatch.has(img) && (
+                            <div className="absolute top-2 right-2 px-2 py-0.5 rounded-full bg-red-500/80 text-[8px] font-black uppercase" title="上次批量净化失败">⚠️ 失败</div>
+                          )}
                           {processingBatch.has(img) && (
                             <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
                               <div className="w-6 h-6 border-2 border-t-cyan-400 border-white/10 rounded-full animate-spin"></div>
@@ -506,35 +1113,21 @@ const App: React.FC = () => {
                     {/* Input Domain (Science Blue) */}
                     <div className="flex-1 flex flex-col gap-4 relative group">
                        <div className="absolute top-8 left-1/2 -translate-x-1/2 z-10 px-4 py-1.5 bg-cyan-600/90 rounded-full text-[9px] font-black uppercase tracking-widest shadow-2xl">原始样本 / Before</div>
-                       <div className={`flex-1 rounded-[40px] border-2 transition-all duration-500 overflow-hidden relative shadow-2xl ${isDrawing ? 'border-cyan-400/60 bg-cyan-400/5' : 'border-cyan-500/20 bg-black'}`}>
-                          {purifyInput ? (
-                            <div className="w-full h-full flex items-center justify-center p-4 relative">
-                               <div className="relative inline-block max-w-full max-h-full rounded-xl overflow-hidden">
-                                  <img src={purifyInput} className="max-w-full max-h-full object-contain block opacity-80" />
-                                  <canvas 
-                                    ref={maskCanvasRef} 
-                                    onMouseDown={startDrawing} onMouseMove={draw} onMouseUp={stopDrawing} onMouseLeave={stopDrawing}
-                                    className="absolute inset-0 w-full h-full opacity-60 mix-blend-screen cursor-none"
-                                    style={{ display: purifyOutput ? 'none' : 'block' }}
-                                  />
-                                  <div className="fixed pointer-events-none rounded-full border border-cyan-400 mix-blend-difference z-[2000] shadow-[0_0_15px_rgba(34,211,238,0.5)]" style={{ width: brushSize, height: brushSize, left: mousePos.x - brushSize/2, top: mousePos.y - brushSize/2 }}>
-                                    <div className="absolute inset-0 rounded-full border border-white/20 animate-ping opacity-20"></div>
-                                  </div>
-                               </div>
-                            </div>
-                          ) : <div className="h-full flex items-center justify-center opacity-10 uppercase text-[10px] font-black tracking-widest">待入库图片样本</div>}
-                       </div>
+                       {purifyInput ? (
+                         <MaskEditor image={purifyInput} mask={masks[purifyInput]} showMask={!purifyOutput} onChange={update => updateMask(purifyInput, update)} />
+                       ) : (
+                         <div className="flex-1 rounded-[40px] border-2 border-cyan-500/20 bg-black shadow-2xl flex items-center justify-center opacity-10 uppercase text-[10px] font-black tracking-widest">待入库图片样本</div>
+                       )}
                        
                        {/* Control Bar */}
-                       <div className="flex items-center justify-between px-6 py-4 bg-white/5 rounded-3xl border border-white/5">
-                          <div className="flex items-center gap-6">
-                             <button onClick={handleUndo} title="撤销 (Ctrl+Z)" className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/5 hover:bg-cyan-500/20 transition-all text-lg">↩️</button>
-                             <button onClick={clearMask} title="清空所有涂鸦" className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/5 hover:bg-red-500/20 transition-all text-lg">🗑️</button>
-                             <div className="w-px h-6 bg-white/10 mx-2"></div>
-                             <div className="flex flex-col gap-1 w-32">
-                                <span className="text-[8px] font-black opacity-30 uppercase">笔触大小: {brushSize}px</span>
-                                <input type="range" min="5" max="200" value={brushSize} onChange={e => setBrushSize(parseInt(e.target.value))} className="accent-cyan-400" />
-                             </div>
+                       <div className="flex items-center justify-between gap-4 px-6 py-4 bg-white/5 rounded-3xl border border-white/5">
+                          <div className="flex flex-wrap items-center gap-3">
+                             <button onClick={() => handleDetect()} disabled={!purifyInput || isDetecting} title="识别文字 / Logo / 界面叠加层并预填遮罩" className="h-10 px-3 flex items-center justify-center rounded-xl bg-white/5 hover:bg-cyan-500/20 disabled:opacity-20 transition-all text-[9px] font-black uppercase">{isDetecting ? '识别中...' : '🔍 自动识别'}</button>
+                             {Array.from(selectedInMatrix).some(img => img !== purifyInput) && (
+                               <button onClick={() => handleDetect(true)} disabled={!purifyInput || isDetecting} title="识别当前图一次，并把结果套用到所选的同源截图" className="h-10 px-3 flex items-center justify-center rounded-xl bg-white/5 hover:bg-cyan-500/20 disabled:opacity-20 transition-all text-[9px] font-black uppercase">🔍 识别并套用到所选</button>
+                             )}
+                             <button onClick={selectMatchingSize} disabled={!purifyInput} title="选中与当前图尺寸相同的样本" className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/5 hover:bg-cyan-500/20 disabled:opacity-20 transition-all text-lg">🎯</button>
+                             <button onClick={() => handleCopyMask()} disabled={!purifyInput || !masks[purifyInput] || Array.from(selectedInMatrix).every(img => img === purifyInput)} title="把当前遮罩套用到所选样本（同尺寸复用，同比例缩放）" className="h-10 px-3 flex items-center justify-center rounded-xl bg-white/5 hover:bg-cyan-500/20 disabled:opacity-20 transition-all text-[9px] font-black uppercase">📋 套用到所选</button>
                           </div>
                           <button 
                             disabled={!purifyInput || isPurifying} 
@@ -550,11 +1143,17 @@ const App: React.FC = () => {
                     <div className="w-16 flex flex-col items-center justify-center gap-6">
                         <button 
                           disabled={selectedInMatrix.size === 0 || isPurifying} 
-                          onClick={handlePurifyBatch}
+                          onClick={() => handlePurifyBatch()}
                           className={`w-14 h-14 rounded-2xl flex items-center justify-center text-xl transition-all ${selectedInMatrix.size === 0 || isPurifying ? 'bg-white/5 opacity-10' : 'bg-blue-600 hover:scale-110'}`}
                         >
                           🌪️
                         </button>
+                        {purifyReviews.length > 0 && (
+                          <button onClick={() => setShowReview(true)} title="审阅批量净化结果" className="relative w-14 h-14 rounded-2xl flex items-center justify-center text-xl bg-emerald-600/20 border border-emerald-500/40 hover:scale-110 transition-all">
+                            🧐
+                            <span className="absolute -top-2 -right-2 min-w-[20px] h-5 px-1 rounded-full bg-emerald-500 text-[9px] font-black flex items-center justify-center">{purifyReviews.length}</span>
+                          </button>
+                        )}
                         <div className="w-px h-10 bg-white/10"></div>
                         <span className="text-[7px] font-black uppercase text-center opacity-30 tracking-widest">批量<br/>模式</span>
                     </div>
@@ -565,9 +1164,9 @@ const App: React.FC = () => {
                        <div className={`flex-1 rounded-[40px] border-2 transition-all duration-700 relative overflow-hidden flex items-center justify-center p-4 bg-[#020205] ${purifyOutput ? 'border-emerald-500/50 shadow-[0_0_50px_rgba(16,185,129,0.15)]' : 'border-white/5'}`}>
                           {purifyOutput ? (
                             <div className="relative w-full h-full flex items-center justify-center rounded-2xl overflow-hidden group">
-                               <img src={purifyInput!} className="max-w-full max-h-full object-contain opacity-20" />
+                               <MediaImage src={purifyInput!} className="max-w-full max-h-full object-contain opacity-20" />
                                <div className="absolute inset-0 pointer-events-none" style={{ clipPath: `inset(0 ${100 - compareSplit}% 0 0)` }}>
-                                  <img src={purifyOutput} className="w-full h-full object-contain" />
+                                  <MediaImage src={purifyOutput} className="w-full h-full object-contain" />
                                </div>
                                <div className="absolute inset-0 cursor-ew-resize">
                                   <div className="absolute top-0 bottom-0 w-[2px] bg-emerald-400 shadow-[0_0_15px_rgba(52,211,153,0.8)]" style={{ left: `${compareSplit}%` }}>
@@ -591,6 +1190,10 @@ const App: React.FC = () => {
                                <button onClick={() => { setImages(p => [purifyOutput, ...p]); setPurifyOutput(null); log('✅ 净化样本已成功持久化。'); }} className="px-10 h-12 rounded-xl bg-emerald-600 text-white font-black text-[9px] uppercase tracking-widest hover:brightness-110">保存并持久化</button>
                                <button onClick={() => { setPurifyInput(purifyOutput); setPurifyOutput(null); log('🔄 结果回传，开始二次净化。'); }} className="px-6 h-12 rounded-xl bg-white/5 border border-white/10 text-[9px] font-black uppercase hover:bg-white/10">回传二次处理</button>
                              </>
+                          ) : panelErrors.purify && !isPurifying ? (
+                             <div className="flex-1">
+                               <ErrorNotice error={panelErrors.purify} title={failedBatch.length > 0 ? '批量净化' : '净化'} onRetry={() => failedBatch.length > 0 ? handlePurifyBatch(failedBatch) : handlePurifySingle()} onDismiss={() => dismissPanelError('purify')} />
+                             </div>
                           ) : <span className="text-[9px] font-black uppercase opacity-20 tracking-widest">等待数据流输出</span>}
                        </div>
                     </div>
@@ -600,6 +1203,26 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {showAssetManager && (
+        <AssetManager assets={assets} onChange={setAssets} onClose={() => setShowAssetManager(false)} log={log} />
+      )}
+
+      {editingShot && (
+        <ShotEditor shot={editingShot} stylePresets={stylePresets} canRender={canRenderShot(editingShot)} onChange={updateShot} onRender={renderSingleShot} onClose={() => setEditingShotId(null)} />
+      )}
+
+      {showStyleEditor && (
+        <StyleEditor style={style} presets={stylePresets} onStyleChange={setStyle} onPresetsChange={updateStylePresets} onClose={() => setShowStyleEditor(false)} />
+      )}
+
+      {showPurifier && showReview && (
+        <PurifyReview items={purifyReviews} onAccept={acceptReviews} onReject={rejectReview} onRetry={retryReview} onClose={() => setShowReview(false)} />
+      )}
+
+      {showExport && (
+        <ExportDialog shots={shots} style={style} mode={productionMode} onClose={() => setShowExport(false)} log={log} />
+      )}
+
       {/* Welcome */}
       {showWelcome && (
         <div className="fixed inset-0 bg-[#020205] z-[9000] flex flex-col items-center justify-center p-8 text-white text-center animate-in fade-in duration-1000">
@@ -0,0 +1,155 @@
+import React, { useState, useRef } from 'react';
+import { Asset } from './types';
+import { importImageRefs } from './mediaStore';
+import { MediaImage } from './Media';
+
+interface AssetManagerProps {
+  assets: Asset[];
+  onChange: (assets: Asset[]) => void;
+  onClose: () => void;
+  log: (msg: string) => void;
+}
+
+const TYPE_LABELS: Record<Asset['type'], string> = {
+  character: '角色',
+  scene: '场景'
+};
+
+const AssetManager: React.FC<AssetManagerProps> = ({ assets, onChange, onClose, log }) => {
+  const [activeType, setActiveType] = useState<Asset['type']>('character');
+  const [selectedId, setSelectedId] = useState<string | null>(assets[0]?.id || null);
+  const [newName, setNewName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const visible = assets.filter(a => a.type === activeType);
+  const selected = assets.find(a => a.id === selectedId) || null;
+
+  const updateAsset = (id: string, patch: Partial<Asset>) => {
+    onChange(assets.map(a => a.id === id ? { ...a, ...patch } : a));
+  };
+
+  const createAsset = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (assets.some(a => a.type === activeType && a.name === name)) {
+      log(`⚠️ ${TYPE_LABELS[activeType]}「${name}」已存在。`);
+      return;
+    }
+    const asset: Asset = { id: `asset-${Date.now()}`, name, type: activeType, images: [], isActive: true };
+    onChange([...assets, asset]);
+    setSelectedId(asset.id);
+    setNewName('');
+    log(`🧬 新建${TYPE_LABELS[activeType]}资产: ${name}`);
+  };
+
+  const deleteAsset = (id: string) => {
+    onChange(assets.filter(a => a.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!selected || !e.target.files) return;
+    const urls = await importImageRefs(Array.from(e.target.files) as File[]);
+    e.target.value = '';
+    if (urls.length === 0) return;
+    // 首张参考图默认作为激活图
+    const hasActive = selected.images.some(img => img.isActive);
+    const added = urls.map((url, i) => ({ url, isActive: !hasActive && i === 0 }));
+    updateAsset(selected.id, { images: [...selected.images, ...added] });
+    log(`📎 「${selected.name}」新增 ${urls.length} 张参考图。`);
+  };
+
+  const setActiveImage = (index: number) => {
+    if (!selected) return;
+    updateAsset(selected.id, { images: selected.images.map((img, i) => ({ ...img, isActive: i === index })) });
+  };
+
+  const removeImage = (index: number) => {
+    if (!selected) return;
+    const images = selected.images.filter((_, i) => i !== index);
+    if (images.length > 0 && !images.some(img => img.isActive)) images[0] = { ...images[0], isActive: true };
+    updateAsset(selected.id, { images });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] bg-[#020205] text-white flex flex-col animate-in fade-in overflow-hidden">
+      <div className="h-20 px-12 flex items-center justify-between border-b border-white/10 shrink-0 bg-black/40 backdrop-blur-2xl">
+        <div className="flex flex-col">
+          <h3 className="text-2xl font-black italic text-violet-400 flex items-center gap-3">
+            <span className="w-2 h-2 rounded-full bg-violet-400 animate-pulse"></span>
+            资产库
+          </h3>
+          <span className="text-[8px] opacity-30 uppercase font-black tracking-widest italic">CHARACTER & SCENE CONTINUITY</span>
+        </div>
+        <button onClick={onClose} className="w-12 h-12 flex items-center justify-center rounded-full bg-white/5 hover:bg-red-500/20 hover:rotate-90 transition-all text-2xl font-light">×</button>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Asset List */}
+        <aside className="w-[320px] border-r border-white/10 bg-black/60 flex flex-col p-8 gap-6 overflow-hidden">
+          <div className="flex bg-white/5 p-1 rounded-xl">
+            {(Object.keys(TYPE_LABELS) as Asset['type'][]).map(t => (
+              <button key={t} onClick={() => setActiveType(t)} className={`flex-1 py-2 rounded-lg text-[10px] font-black uppercase transition-all ${activeType === t ? 'bg-violet-600 text-white' : 'opacity-40 hover:opacity-100'}`}>
+                {TYPE_LABELS[t]} ({assets.filter(a => a.type === t).length})
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input value={newName} onChange={e => setNewName(e.target.value)} onKeyDown={e => e.key === 'Enter' && createAsset()} placeholder={`新${TYPE_LABELS[activeType]}名称`} className="flex-1 min-w-0 px-4 py-2 bg-white/5 rounded-xl text-xs outline-none border border-white/5 focus:border-violet-500/50" />
+            <button onClick={createAsset} className="px-4 rounded-xl bg-violet-600 text-[10px] font-black uppercase hover:brightness-110">新建</button>
+          </div>
+          <div className="flex-1 overflow-y-auto space-y-3 pr-2 scrollbar-hide">
+            {visible.map(asset => {
+              const cover = asset.images.find(img => img.isActive)?.url;
+              return (
+                <div key={asset.id} onClick={() => setSelectedId(asset.id)} className={`flex items-center gap-3 p-3 rounded-2xl cursor-pointer border transition-all ${selectedId === asset.id ? 'border-violet-500 bg-violet-500/10' : 'border-white/5 hover:bg-white/5'}`}>
+                  <div className="w-12 h-12 rounded-xl overflow-hidden bg-white/5 shrink-0 flex items-center justify-center text-[9px] opacity-80">
+                    {cover ? <MediaImage src={cover} className="w-full h-full object-cover" /> : '无图'}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-black truncate">{asset.name}</p>
+                    <p className="text-[9px] opacity-40">{asset.images.length} 张参考图</p>
+                  </div>
+                  <div className={`w-2 h-2 rounded-full ${asset.isActive ? 'bg-green-500' : 'bg-white/10'}`} title={asset.isActive ? '未识别时默认绑定' : '未启用'}></div>
+                </div>
+              );
+            })}
+            {visible.length === 0 && <div className="py-10 text-center opacity-10 text-[10px] uppercase font-black tracking-widest">暂无{TYPE_LABELS[activeType]}</div>}
+          </div>
+        </aside>
+
+        {/* Asset Detail */}
+        <div className="flex-1 flex flex-col bg-[#050508] p-10 gap-8 overflow-hidden">
+          {selected ? (
+            <>
+              <div className="flex items-center gap-6">
+                <input value={selected.name} onChange={e => updateAsset(selected.id, { name: e.target.value })} className="flex-1 bg-transparent text-3xl font-black italic outline-none border-b border-white/10 focus:border-violet-500 pb-2" />
+                <label className="flex items-center gap-2 text-[10px] font-black uppercase cursor-pointer">
+                  <input type="checkbox" checked={selected.isActive} onChange={e => updateAsset(selected.id, { isActive: e.target.checked })} className="w-4 h-4 accent-violet-500" />
+                  未识别时默认绑定
+                </label>
+                <button onClick={() => deleteAsset(selected.id)} className="px-6 py-3 rounded-xl bg-red-500/10 text-red-400 border border-red-500/20 text-[10px] font-black uppercase hover:bg-red-500 hover:text-white transition-all">删除资产</button>
+              </div>
+              <div className="flex-1 grid grid-cols-2 xl:grid-cols-4 gap-6 overflow-y-auto content-start pr-2 scrollbar-hide">
+                {selected.images.map((img, i) => (
+                  <div key={i} className={`relative aspect-square rounded-3xl overflow-hidden border-2 group transition-all ${img.isActive ? 'border-violet-500 shadow-2xl shadow-violet-500/30' : 'border-white/5'}`}>
+                    <MediaImage src={img.url} onClick={() => setActiveImage(i)} className="w-full h-full object-cover cursor-pointer" />
+                    {img.isActive && <span className="absolute top-3 left-3 px-3 py-1 bg-violet-600 rounded-full text-[8px] font-black uppercase">激活参考</span>}
+                    <button onClick={() => removeImage(i)} className="absolute top-3 right-3 w-6 h-6 bg-red-500 text-white rounded-full text-[10px] hidden group-hover:flex items-center justify-center">×</button>
+                  </div>
+                ))}
+                <div onClick={() => fileInputRef.current?.click()} className="aspect-square border-2 border-dashed border-white/20 rounded-3xl flex flex-col items-center justify-center gap-2 opacity-40 hover:opacity-100 transition-all cursor-pointer">
+                  <span className="text-3xl">+</span>
+                  <span className="text-[9px] font-black uppercase tracking-widest">添加参考图</span>
+                </div>
+              </div>
+              <input ref={fileInputRef} type="file" accept="image/*" multiple onChange={handleUpload} className="hidden" />
+            </>
+          ) : <div className="h-full flex items-center justify-center opacity-10 uppercase text-[10px] font-black tracking-widest">选择或新建一个资产</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AssetManager;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { StudioError } from './types';
+import { ERROR_META } from './errors';
+
+interface ErrorNoticeProps {
+  error: StudioError;
+  title?: string;
+  compact?: boolean;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+}
+
+const TONES: Record<StudioError['category'], string> = {
+  quota: 'bg-amber-500/10 border-amber-500/30 text-amber-300',
+  safety: 'bg-rose-500/10 border-rose-500/30 text-rose-300',
+  network: 'bg-sky-500/10 border-sky-500/30 text-sky-300',
+  bad_output: 'bg-violet-500/10 border-violet-500/30 text-violet-300',
+  unknown: 'bg-red-500/10 border-red-500/30 text-red-300'
+};
+
+// 失败提示条：分类图标 + 原因 + 重试；compact 用于分镜卡片内
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, title, compact, onRetry, onDismiss }) => {
+  const meta = ERROR_META[error.category];
+  return (
+    <div className={`flex items-start gap-3 border ${compact ? 'p-2 rounded-2xl' : 'p-3 rounded-2xl'} ${TONES[error.category]}`}>
+      <span className={compact ? 'text-xs' : 'text-base'}>{meta.icon}</span>
+      <div className="flex-1 min-w-0">
+        <p className="text-[9px] font-black uppercase tracking-widest">{title ? `${title} · ` : ''}{meta.label}</p>
+        <p className={`text-[10px] opacity-80 ${compact ? 'truncate' : 'break-words'}`} title={error.message}>{error.message}</p>
+        {!compact && <p className="text-[9px] opacity-50 mt-1">{meta.hint}</p>}
+      </div>
+      {onRetry && <button onClick={onRetry} title={meta.hint} className="shrink-0 px-3 py-1 rounded-full bg-white/10 hover:bg-white/20 text-[9px] font-black uppercase text-white transition-all">🔄 重试</button>}
+      {onDismiss && <button onClick={onDismiss} title="忽略" className="shrink-0 w-6 h-6 rounded-full hover:bg-white/10 text-[10px] opacity-60 hover:opacity-100">✕</button>}
+    </div>
+  );
+};
+
+export default ErrorNotice;
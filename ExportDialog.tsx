@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Shot, StyleDistillation, ProductionMode } from './types';
+import { buildShootingScriptHtml, downloadFile, printHtml, PanelsPerPage } from './exporters';
+import { getMediaDataUrl } from './mediaStore';
+
+interface ExportDialogProps {
+  shots: Shot[];
+  style: StyleDistillation | null;
+  mode: ProductionMode;
+  onClose: () => void;
+  log: (msg: string) => void;
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ shots, style, mode, onClose, log }) => {
+  const [title, setTitle] = useState('未命名分镜');
+  const [panelsPerPage, setPanelsPerPage] = useState<PanelsPerPage>(4);
+
+  // 导出文件需自包含：把媒体引用还原为内联数据
+  const build = async () => {
+    const inlined = await Promise.all(shots.map(async shot => shot.imageUrl ? { ...shot, imageUrl: await getMediaDataUrl(shot.imageUrl) } : shot));
+    return buildShootingScriptHtml(inlined, style, { title: title.trim() || '未命名分镜', panelsPerPage, mode });
+  };
+
+  const handleHtml = async () => {
+    downloadFile(await build(), `${title.trim() || 'storyboard'}.html`, 'text/html');
+    log(`📄 已导出 HTML 拍摄脚本 (${shots.length} 镜)。`);
+  };
+
+  const handlePdf = async () => {
+    printHtml(await build());
+    log('🖨️ 已打开打印面板，选择「另存为 PDF」即可。');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1200] bg-black/70 backdrop-blur-sm flex items-center justify-center text-white animate-in fade-in" onClick={onClose}>
+      <div onClick={e => e.stopPropagation()} className="w-[480px] rounded-[32px] bg-[#0c0c11] border border-white/10 p-10 flex flex-col gap-8 shadow-2xl">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-black italic text-emerald-400">导出拍摄脚本</h3>
+          <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full bg-white/5 hover:bg-red-500/20 hover:rotate-90 transition-all text-xl font-light">×</button>
+        </div>
+        <label className="flex flex-col gap-2">
+          <span className="text-[10px] font-black uppercase opacity-40 tracking-widest">片名</span>
+          <input value={title} onChange={e => setTitle(e.target.value)} className="px-4 py-3 bg-white/5 rounded-xl text-sm outline-none border border-white/5 focus:border-emerald-500/50" />
+        </label>
+        <div className="flex flex-col gap-2">
+          <span className="text-[10px] font-black uppercase opacity-40 tracking-widest">每页分镜数</span>
+          <div className="flex gap-2">
+            {([1, 2, 4, 6] as PanelsPerPage[]).map(n => (
+              <button key={n} onClick={() => setPanelsPerPage(n)} className={`flex-1 py-3 rounded-xl text-xs font-black transition-all ${panelsPerPage === n ? 'bg-emerald-600 text-white' : 'bg-white/5 opacity-40 hover:opacity-100'}`}>{n}</button>
+            ))}
+          </div>
+        </div>
+        <p className="text-[10px] opacity-40 leading-relaxed">共 {shots.length} 镜，封面附视觉 DNA 与配色方案。{!style && '（尚未提取视觉 DNA）'}</p>
+        <div className="flex gap-3">
+          <button disabled={shots.length === 0} onClick={handleHtml} className="flex-1 py-4 rounded-2xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest hover:bg-white/10 disabled:opacity-20">导出 HTML</button>
+          <button disabled={shots.length === 0} onClick={handlePdf} className="flex-1 py-4 rounded-2xl bg-emerald-600 text-[10px] font-black uppercase tracking-widest hover:brightness-110 disabled:opacity-20">打印 / PDF</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
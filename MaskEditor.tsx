@@ -0,0 +1,317 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ImageMask, MaskOp, MaskRegion } from './types';
+import { MediaImage } from './Media';
+import MaskRegionLayer from './MaskRegionLayer';
+import { ImageSize, MAX_MASK_HISTORY, getImageSize, renderMask, applyMaskOp, pushMaskOp, undoMaskOp, redoMaskOp, collapseMaskOps } from './masks';
+
+type MaskTool = 'brush' | 'eraser' | 'rect' | 'lasso' | 'pan';
+
+interface MaskEditorProps {
+  image: string;
+  mask?: ImageMask;
+  // 显示净化结果时只看原图，不显示也不编辑遮罩
+  showMask: boolean;
+  onChange: (update: (mask?: ImageMask) => ImageMask | undefined) => void;
+}
+
+const TOOLS: { id: MaskTool; icon: string; label: string; key: string }[] = [
+  { id: 'brush', icon: '🖌️', label: '画笔', key: 'B' },
+  { id: 'eraser', icon: '🧽', label: '橡皮', key: 'E' },
+  { id: 'rect', icon: '⬜', label: '矩形（按住 Alt 擦除）', key: 'R' },
+  { id: 'lasso', icon: '➰', label: '套索（按住 Alt 擦除）', key: 'L' },
+  { id: 'pan', icon: '✋', label: '平移（或按住空格拖动）', key: 'H' }
+];
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+// 套索相邻两点的最小间距（相对宽度），避免点数过多
+const LASSO_SPACING = 0.003;
+
+// 进行中的手势：笔触边画边显示；矩形与套索先预览，松手后才写入画布
+type Gesture =
+  | { kind: 'stroke'; erase: boolean; points: number[] }
+  | { kind: 'rect'; erase: boolean; x0: number; y0: number; x1: number; y1: number }
+  | { kind: 'lasso'; erase: boolean; points: number[] }
+  | { kind: 'pan'; startX: number; startY: number; originX: number; originY: number };
+
+interface View {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const RESET_VIEW: View = { zoom: 1, x: 0, y: 0 };
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const isTyping = (target: EventTarget | null) => target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const toRect = (g: Extract<Gesture, { kind: 'rect' }>) => ({
+  x: Math.min(g.x0, g.x1), y: Math.min(g.y0, g.y1), width: Math.abs(g.x1 - g.x0), height: Math.abs(g.y1 - g.y0)
+});
+
+// 净化矩阵的遮罩编辑器：画笔 / 橡皮 / 矩形 / 套索、反选、羽化与扩张收缩、缩放平移，按操作撤销重做
+const MaskEditor: React.FC<MaskEditorProps> = ({ image, mask, showMask, onChange }) => {
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [edgeRadius, setEdgeRadius] = useState(8);
+  const [size, setSize] = useState<ImageSize | null>(null);
+  const [view, setView] = useState<View>(RESET_VIEW);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const [gesture, setGesture] = useState<Gesture | null>(null);
+  const [cursor, setCursor] = useState<{ x: number; y: number; scale: number } | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const gestureRef = useRef<Gesture | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    setSize(null);
+    setView(RESET_VIEW);
+    getImageSize(image).then(s => { if (alive) setSize(s); });
+    return () => { alive = false; };
+  }, [image]);
+
+  // 遮罩变化（含撤销 / 重做 / 外部套用）时整体重放；过期的渲染结果直接丢弃
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !size || !showMask) return;
+    let alive = true;
+    const offscreen = document.createElement('canvas');
+    renderMask(offscreen, mask, size).then(() => {
+      if (!alive) return;
+      canvas.width = size.width;
+      canvas.height = size.height;
+      canvas.getContext('2d')!.drawImage(offscreen, 0, 0);
+    });
+    return () => { alive = false; };
+  }, [mask, size, showMask]);
+
+  // 操作数超限时把最早的几步压平；压平是异步的，结果只在遮罩开头未变时生效
+  useEffect(() => {
+    if (mask && mask.ops.length > MAX_MASK_HISTORY) collapseMaskOps(mask).then(onChange);
+  }, [mask]);
+
+  const commit = (op: MaskOp) => {
+    if (size) onChange(m => pushMaskOp(m, op, size));
+  };
+
+  const commitRegions = (regions: MaskRegion[]) => {
+    if (size) onChange(m => pushMaskOp(m, { type: 'regions', before: m?.regions || [], after: regions }, size));
+  };
+
+  const undo = () => onChange(undoMaskOp);
+  const redo = () => onChange(redoMaskOp);
+  const edgeOp = (type: 'feather' | 'dilate', sign = 1) => size && commit({ type, radius: round(sign * edgeRadius / size.width) } as MaskOp);
+
+  const zoomBy = (factor: number, clientX?: number, clientY?: number) => {
+    const stage = stageRef.current?.getBoundingClientRect();
+    setView(v => {
+      const zoom = clamp(v.zoom * factor, MIN_ZOOM, MAX_ZOOM);
+      if (zoom === MIN_ZOOM) return RESET_VIEW;
+      if (!stage || clientX === undefined || clientY === undefined) return { ...v, zoom };
+      // 以光标为锚点缩放：舞台未变换时的中心 = 当前中心 - 平移量
+      const cx = stage.left + stage.width / 2 - v.x;
+      const cy = stage.top + stage.height / 2 - v.y;
+      const k = zoom / v.zoom;
+      return { zoom, x: clientX - cx - k * (clientX - cx - v.x), y: clientY - cy - k * (clientY - cy - v.y) };
+    });
+  };
+
+  // React 的 wheel 监听是 passive 的，无法阻止页面滚动
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomBy(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX, e.clientY);
+    };
+    viewport.addEventListener('wheel', onWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', onWheel);
+  }, []);
+
+  // Keyboard Shortcuts
+  // 处理函数每次渲染都换成最新的（用到当前的 commit / undo / redo），监听只注册一次
+  const keyDownRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  keyDownRef.current = (e: KeyboardEvent) => {
+    if (isTyping(e.target) || !showMask) return;
+    const key = e.key.toLowerCase();
+    if (e.ctrlKey || e.metaKey) {
+      if (key === 'z' && e.shiftKey || key === 'y') { e.preventDefault(); redo(); }
+      else if (key === 'z') { e.preventDefault(); undo(); }
+      return;
+    }
+    if (e.code === 'Space') { e.preventDefault(); setSpaceHeld(true); return; }
+    const match = TOOLS.find(t => t.key.toLowerCase() === key);
+    if (match) setTool(match.id);
+    else if (key === 'i') commit({ type: 'invert' });
+    else if (key === '[') setBrushSize(s => Math.max(2, Math.round(s / 1.2)));
+    else if (key === ']') setBrushSize(s => Math.min(400, Math.round(s * 1.2)));
+    else if (key === '=' || key === '+') zoomBy(ZOOM_STEP);
+    else if (key === '-') zoomBy(1 / ZOOM_STEP);
+    else if (key === '0') setView(RESET_VIEW);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => keyDownRef.current(e);
+    const onKeyUp = (e: KeyboardEvent) => { if (e.code === 'Space') setSpaceHeld(false); };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, []);
+
+  // 屏幕坐标 → 相对原图的比例坐标（getBoundingClientRect 已包含缩放平移）
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width, 0, 1), y: clamp((e.clientY - rect.top) / rect.height, 0, 1), scale: rect.width / (size?.width || 1) };
+  };
+
+  const drawLive = (g: Extract<Gesture, { kind: 'stroke' }>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx && size) applyMaskOp(ctx, { type: 'stroke', erase: g.erase, size: brushSize / size.width, points: g.points.slice(-4) }, size);
+  };
+
+  const updateGesture = (g: Gesture | null) => {
+    gestureRef.current = g;
+    setGesture(g);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!size || !showMask) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (tool === 'pan' || spaceHeld || e.button === 1) {
+      updateGesture({ kind: 'pan', startX: e.clientX, startY: e.clientY, originX: view.x, originY: view.y });
+      return;
+    }
+    if (e.button !== 0) return;
+    const { x, y } = toPoint(e);
+    if (tool === 'brush' || tool === 'eraser') {
+      const g: Gesture = { kind: 'stroke', erase: tool === 'eraser', points: [round(x), round(y)] };
+      updateGesture(g);
+      drawLive(g);
+    } else if (tool === 'rect') {
+      updateGesture({ kind: 'rect', erase: e.altKey, x0: x, y0: y, x1: x, y1: y });
+    } else if (tool === 'lasso') {
+      updateGesture({ kind: 'lasso', erase: e.altKey, points: [round(x), round(y)] });
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const point = toPoint(e);
+    setCursor({ x: e.clientX, y: e.clientY, scale: point.scale });
+    const g = gestureRef.current;
+    if (!g) return;
+    if (g.kind === 'pan') {
+      setView(v => ({ ...v, x: g.originX + e.clientX - g.startX, y: g.originY + e.clientY - g.startY }));
+    } else if (g.kind === 'stroke') {
+      const next = { ...g, points: [...g.points, round(point.x), round(point.y)] };
+      gestureRef.current = next;
+      drawLive(next);
+    } else if (g.kind === 'rect') {
+      updateGesture({ ...g, x1: point.x, y1: point.y });
+    } else {
+      const [lx, ly] = g.points.slice(-2);
+      if (Math.hypot(point.x - lx, point.y - ly) >= LASSO_SPACING) updateGesture({ ...g, points: [...g.points, round(point.x), round(point.y)] });
+    }
+  };
+
+  const handlePointerUp = () => {
+    const g = gestureRef.current;
+    updateGesture(null);
+    if (!g || !size) return;
+    if (g.kind === 'stroke') {
+      commit({ type: 'stroke', erase: g.erase, size: round(brushSize / size.width), points: g.points });
+    } else if (g.kind === 'rect') {
+      const r = toRect(g);
+      if (r.width > 0 && r.height > 0) commit({ type: 'rect', erase: g.erase, x: round(r.x), y: round(r.y), width: round(r.width), height: round(r.height) });
+    } else if (g.kind === 'lasso' && g.points.length >= 6) {
+      commit({ type: 'lasso', erase: g.erase, points: g.points });
+    }
+  };
+
+  const panning = tool === 'pan' || spaceHeld || gesture?.kind === 'pan';
+  const showBrush = showMask && cursor && !panning && (tool === 'brush' || tool === 'eraser');
+  const canUndo = !!mask?.ops.length;
+  const canRedo = !!mask?.redo?.length;
+  const iconButton = 'w-10 h-10 flex items-center justify-center rounded-xl bg-white/5 hover:bg-cyan-500/20 disabled:opacity-20 transition-all text-lg';
+  const textButton = 'h-10 px-3 flex items-center justify-center rounded-xl bg-white/5 hover:bg-cyan-500/20 disabled:opacity-20 transition-all text-[9px] font-black uppercase';
+
+  return (
+    <>
+      <div
+        ref={viewportRef}
+        className={`flex-1 rounded-[40px] border-2 transition-all duration-500 overflow-hidden relative shadow-2xl flex items-center justify-center p-4 ${gesture && gesture.kind !== 'pan' ? 'border-cyan-400/60 bg-cyan-400/5' : 'border-cyan-500/20 bg-black'}`}
+      >
+        <div
+          ref={stageRef}
+          className="relative inline-block max-w-full max-h-full rounded-xl"
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}
+        >
+          <MediaImage src={image} className="max-w-full max-h-full object-contain block opacity-80" />
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerLeave={() => setCursor(null)}
+            className={`absolute inset-0 w-full h-full opacity-60 mix-blend-screen touch-none ${panning ? 'cursor-grab' : tool === 'rect' || tool === 'lasso' ? 'cursor-crosshair' : 'cursor-none'}`}
+            style={{ display: showMask ? 'block' : 'none' }}
+          />
+          {showMask && gesture && (gesture.kind === 'rect' || gesture.kind === 'lasso') && (
+            <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+              {gesture.kind === 'rect' ? (
+                <rect {...toRect(gesture)} fill={gesture.erase ? 'rgba(0,0,0,0.4)' : 'rgba(255,255,255,0.4)'} stroke="#22D3EE" strokeWidth={2} vectorEffect="non-scaling-stroke" strokeDasharray="6 4" />
+              ) : (
+                <polygon points={gesture.points.join(' ')} fill={gesture.erase ? 'rgba(0,0,0,0.4)' : 'rgba(255,255,255,0.4)'} stroke="#22D3EE" strokeWidth={2} vectorEffect="non-scaling-stroke" strokeDasharray="6 4" />
+              )}
+            </svg>
+          )}
+          {showMask && mask?.regions && (
+            <MaskRegionLayer regions={mask.regions} onChange={commitRegions} />
+          )}
+        </div>
+        {showBrush && (
+          <div className={`fixed pointer-events-none rounded-full border mix-blend-difference z-[2000] ${tool === 'eraser' ? 'border-red-400' : 'border-cyan-400 shadow-[0_0_15px_rgba(34,211,238,0.5)]'}`} style={{ width: brushSize * cursor.scale, height: brushSize * cursor.scale, left: cursor.x - brushSize * cursor.scale / 2, top: cursor.y - brushSize * cursor.scale / 2 }}></div>
+        )}
+        {view.zoom > 1 && (
+          <button onClick={() => setView(RESET_VIEW)} title="重置视图 (0)" className="absolute bottom-4 right-4 px-3 py-1 rounded-full bg-black/70 text-[9px] font-black">{Math.round(view.zoom * 100)}% · 复位</button>
+        )}
+      </div>
+
+      {/* Mask Tools */}
+      <div className={`flex flex-wrap items-center gap-3 px-6 py-3 bg-white/5 rounded-3xl border border-white/5 ${showMask ? '' : 'opacity-20 pointer-events-none'}`}>
+        {TOOLS.map(t => (
+          <button key={t.id} onClick={() => setTool(t.id)} title={`${t.label} (${t.key})`} className={`${iconButton} ${tool === t.id ? 'bg-cyan-500/30 ring-1 ring-cyan-400' : ''}`}>{t.icon}</button>
+        ))}
+        <div className="w-px h-6 bg-white/10 mx-1"></div>
+        <button onClick={undo} disabled={!canUndo} title="撤销 (Ctrl+Z)" className={iconButton}>↩️</button>
+        <button onClick={redo} disabled={!canRedo} title="重做 (Ctrl+Shift+Z / Ctrl+Y)" className={iconButton}>↪️</button>
+        <button onClick={() => commit({ type: 'clear' })} disabled={!canUndo} title="清空手绘遮罩（可撤销）" className={`${iconButton} hover:bg-red-500/20`}>🗑️</button>
+        <button onClick={() => commit({ type: 'invert' })} title="反选 (I)" className={iconButton}>◐</button>
+        <div className="w-px h-6 bg-white/10 mx-1"></div>
+        <button onClick={() => edgeOp('feather')} disabled={!canUndo} title="羽化边缘" className={textButton}>羽化</button>
+        <button onClick={() => edgeOp('dilate')} disabled={!canUndo} title="向外扩张" className={textButton}>扩张</button>
+        <button onClick={() => edgeOp('dilate', -1)} disabled={!canUndo} title="向内收缩" className={textButton}>收缩</button>
+        <div className="flex flex-col gap-1 w-20">
+          <span className="text-[8px] font-black opacity-30 uppercase">边缘: {edgeRadius}px</span>
+          <input type="range" min="1" max="40" value={edgeRadius} onChange={e => setEdgeRadius(parseInt(e.target.value))} className="accent-cyan-400" />
+        </div>
+        <div className="w-px h-6 bg-white/10 mx-1"></div>
+        <div className="flex flex-col gap-1 w-28">
+          <span className="text-[8px] font-black opacity-30 uppercase">笔触大小: {brushSize}px</span>
+          <input type="range" min="2" max="400" value={brushSize} onChange={e => setBrushSize(parseInt(e.target.value))} className="accent-cyan-400" />
+        </div>
+        <div className="flex items-center gap-1 ml-auto">
+          <button onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={view.zoom <= MIN_ZOOM} title="缩小 (-)" className={iconButton}>－</button>
+          <span className="w-12 text-center text-[9px] font-black opacity-60">{Math.round(view.zoom * 100)}%</span>
+          <button onClick={() => zoomBy(ZOOM_STEP)} disabled={view.zoom >= MAX_ZOOM} title="放大 (+ / 滚轮)" className={iconButton}>＋</button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,73 @@
+import React, { useRef, useState } from 'react';
+import { MaskRegion } from './types';
+
+interface MaskRegionLayerProps {
+  regions: MaskRegion[];
+  onChange: (regions: MaskRegion[]) => void;
+}
+
+export const REGION_META: Record<MaskRegion['kind'], { icon: string; label: string }> = {
+  text: { icon: '🔤', label: '文字' },
+  logo: { icon: '🏷️', label: 'Logo' },
+  ui: { icon: '📱', label: '界面' },
+  watermark: { icon: '💧', label: '水印' }
+};
+
+const MIN_SIZE = 0.01;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// 叠加在遮罩画布上的识别区域：拖动移动、右下角缩放、× 删除；坐标为相对原图的比例。
+// 拖动过程只更新本地预览，松手时才提交一次（成为一步可撤销的操作）
+const MaskRegionLayer: React.FC<MaskRegionLayerProps> = ({ regions, onChange }) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<MaskRegion | null>(null);
+
+  const startDrag = (e: React.PointerEvent, region: MaskRegion, mode: 'move' | 'resize') => {
+    const layer = layerRef.current;
+    if (!layer) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = layer.getBoundingClientRect();
+    const startX = e.clientX;
+    const startY = e.clientY;
+    let next = region;
+
+    const onMove = (ev: PointerEvent) => {
+      const dx = (ev.clientX - startX) / rect.width;
+      const dy = (ev.clientY - startY) / rect.height;
+      next = mode === 'move'
+        ? { ...region, x: clamp(region.x + dx, 0, 1 - region.width), y: clamp(region.y + dy, 0, 1 - region.height) }
+        : { ...region, width: clamp(region.width + dx, MIN_SIZE, 1 - region.x), height: clamp(region.height + dy, MIN_SIZE, 1 - region.y) };
+      setDragging(next);
+    };
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      setDragging(null);
+      if (next !== region) onChange(regions.map(r => r.id === region.id ? next : r));
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+  };
+
+  return (
+    <div ref={layerRef} className="absolute inset-0 pointer-events-none">
+      {regions.map(r => dragging?.id === r.id ? dragging : r).map(region => (
+        <div
+          key={region.id}
+          onPointerDown={e => startDrag(e, region, 'move')}
+          title={`${REGION_META[region.kind].label}${region.label ? ` · ${region.label}` : ''}`}
+          className="absolute pointer-events-auto cursor-move border-2 border-dashed border-cyan-300 bg-white/40 group/region"
+          style={{ left: `${region.x * 100}%`, top: `${region.y * 100}%`, width: `${region.width * 100}%`, height: `${region.height * 100}%` }}
+        >
+          <span className="absolute -top-5 left-0 max-w-[200px] truncate px-1.5 rounded bg-cyan-500 text-[8px] font-black text-white whitespace-nowrap">{REGION_META[region.kind].icon} {region.label || REGION_META[region.kind].label}</span>
+          <button onPointerDown={e => e.stopPropagation()} onClick={() => onChange(regions.filter(r => r.id !== region.id))} className="absolute -top-2 -right-2 w-4 h-4 bg-red-500 text-white rounded-full text-[9px] hidden group-hover/region:flex items-center justify-center">×</button>
+          <div onPointerDown={e => startDrag(e, region, 'resize')} className="absolute -bottom-1 -right-1 w-3 h-3 bg-cyan-300 cursor-se-resize" />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MaskRegionLayer;
@@ -0,0 +1,16 @@
+import React from 'react';
+import { useMediaUrl } from './mediaStore';
+
+type MediaImageProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> & { src?: string };
+type MediaVideoProps = Omit<React.VideoHTMLAttributes<HTMLVideoElement>, 'src'> & { src?: string };
+
+// 接受媒体引用（media:<hash>）或普通 URL，按需解析为 Object URL
+export const MediaImage: React.FC<MediaImageProps> = ({ src, ...rest }) => {
+  const url = useMediaUrl(src);
+  return url ? <img src={url} {...rest} /> : null;
+};
+
+export const MediaVideo: React.FC<MediaVideoProps> = ({ src, ...rest }) => {
+  const url = useMediaUrl(src);
+  return url ? <video src={url} {...rest} /> : null;
+};
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { ProjectMeta } from './types';
+
+interface ProjectSwitcherProps {
+  projects: ProjectMeta[];
+  currentId: string | null;
+  isDark: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({ projects, currentId, isDark, onSwitch, onCreate, onRename, onDuplicate, onDelete }) => {
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [newName, setNewName] = useState('');
+
+  const current = projects.find(p => p.id === currentId);
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  const create = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(name);
+    setNewName('');
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(o => !o)} className={`flex items-center gap-2 px-4 py-2 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all ${isDark ? 'bg-white/5 border-white/5 hover:bg-white/10' : 'bg-black/5 border-black/5 hover:bg-black/10'}`}>
+        <span className="opacity-40">项目</span>
+        <span className="max-w-[160px] truncate">{current?.name || '—'}</span>
+        <span className="opacity-40">▾</span>
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-[900]" onClick={() => { setOpen(false); commitRename(); }} />
+          <div className={`absolute left-0 top-12 z-[901] w-[340px] rounded-3xl border p-4 flex flex-col gap-3 shadow-2xl ${isDark ? 'bg-[#121217] border-white/10' : 'bg-white border-black/10'}`}>
+            <div className="max-h-[320px] overflow-y-auto space-y-1 scrollbar-hide">
+              {projects.map(p => (
+                <div key={p.id} className={`group flex items-center gap-2 px-3 py-2 rounded-xl transition-all ${p.id === currentId ? 'bg-blue-600/20' : 'hover:bg-white/5'}`}>
+                  {editingId === p.id ? (
+                    <input autoFocus value={draftName} onChange={e => setDraftName(e.target.value)} onBlur={commitRename} onKeyDown={e => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }} className="flex-1 min-w-0 bg-transparent text-xs font-black outline-none border-b border-blue-500" />
+                  ) : (
+                    <button onClick={() => { onSwitch(p.id); setOpen(false); }} className="flex-1 min-w-0 text-left">
+                      <p className="text-xs font-black truncate">{p.name}</p>
+                      <p className="text-[8px] opacity-30">{new Date(p.createdAt).toLocaleDateString()}</p>
+                    </button>
+                  )}
+                  <div className="hidden group-hover:flex gap-1">
+                    <button onClick={() => { setEditingId(p.id); setDraftName(p.name); }} title="重命名" className="w-6 h-6 rounded-lg hover:bg-white/10 text-[10px]">✏️</button>
+                    <button onClick={() => { onDuplicate(p.id); setOpen(false); }} title="复制" className="w-6 h-6 rounded-lg hover:bg-white/10 text-[10px]">📑</button>
+                    <button onClick={() => onDelete(p.id)} title="删除" className="w-6 h-6 rounded-lg hover:bg-red-500/20 text-[10px]">🗑️</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2 pt-3 border-t border-white/5">
+              <input value={newName} onChange={e => setNewName(e.target.value)} onKeyDown={e => e.key === 'Enter' && create()} placeholder="新项目名称" className="flex-1 min-w-0 px-3 py-2 bg-black/20 rounded-xl text-xs outline-none border border-white/5 focus:border-blue-500/50" />
+              <button onClick={create} className="px-4 rounded-xl bg-blue-600 text-white text-[10px] font-black uppercase hover:brightness-110">新建</button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { PROVIDERS, ProviderId, ProviderSettings, FORCED_PROVIDER, getDefaultSettings } from './providers';
+
+interface ProviderPickerProps {
+  settings: ProviderSettings;
+  isDark: boolean;
+  onChange: (settings: ProviderSettings) => void;
+}
+
+const ProviderPicker: React.FC<ProviderPickerProps> = ({ settings, isDark, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const provider = PROVIDERS[settings.providerId];
+  const selectClass = `w-full px-3 py-2 rounded-xl text-xs outline-none border ${isDark ? 'bg-black/20 border-white/5' : 'bg-black/5 border-black/5'}`;
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(o => !o)} title="生成后端与模型" className={`flex items-center gap-2 px-4 py-2 rounded-full border text-[10px] font-black uppercase transition-all ${settings.providerId === 'mock' ? 'bg-amber-500/10 text-amber-400 border-amber-500/20' : isDark ? 'bg-white/5 border-white/5 opacity-60 hover:opacity-100' : 'bg-black/5 border-black/5 opacity-60 hover:opacity-100'}`}>
+        {provider.label}
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-[900]" onClick={() => setOpen(false)} />
+          <div className={`absolute right-0 top-12 z-[901] w-[300px] rounded-3xl border p-4 flex flex-col gap-4 shadow-2xl ${isDark ? 'bg-[#121217] border-white/10' : 'bg-white border-black/10'}`}>
+            <span className="text-[10px] font-black uppercase opacity-40 tracking-widest">生成后端</span>
+            <div className="flex bg-black/20 p-1 rounded-xl">
+              {(Object.keys(PROVIDERS) as ProviderId[]).map(id => (
+                <button key={id} disabled={!!FORCED_PROVIDER} onClick={() => onChange(getDefaultSettings(id))} className={`flex-1 py-2 rounded-lg text-[9px] font-black uppercase transition-all ${settings.providerId === id ? 'bg-blue-600 text-white' : 'opacity-40 hover:opacity-100'}`}>{PROVIDERS[id].label}</button>
+              ))}
+            </div>
+            {FORCED_PROVIDER && <p className="text-[9px] opacity-40">构建时已通过 PROVIDER={FORCED_PROVIDER} 固定后端。</p>}
+            <label className="flex flex-col gap-1">
+              <span className="text-[9px] font-black uppercase opacity-40 tracking-widest">文本模型（风格 / 推演）</span>
+              <select value={settings.textModel} onChange={e => onChange({ ...settings, textModel: e.target.value })} className={selectClass}>
+                {provider.textModels.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-[9px] font-black uppercase opacity-40 tracking-widest">图像模型（渲染 / 净化）</span>
+              <select value={settings.imageModel} onChange={e => onChange({ ...settings, imageModel: e.target.value })} className={selectClass}>
+                {provider.imageModels.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            </label>
+            {settings.providerId === 'mock' && <p className="text-[9px] opacity-40 leading-relaxed">离线模式：返回固定的示例数据与占位图，不消耗配额。配音与动态镜头仍需 Gemini。</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProviderPicker;
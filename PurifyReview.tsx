@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { PurifyReviewItem } from './types';
+import { MediaImage } from './Media';
+import ErrorNotice from './ErrorNotice';
+
+interface PurifyReviewProps {
+  items: PurifyReviewItem[];
+  onAccept: (originals: string[]) => void;
+  onReject: (original: string) => void;
+  onRetry: (original: string, instruction: string) => void;
+  onClose: () => void;
+}
+
+const ReviewCard: React.FC<{ item: PurifyReviewItem } & Omit<PurifyReviewProps, 'items' | 'onClose'>> = ({ item, onAccept, onReject, onRetry }) => {
+  const [split, setSplit] = useState(50);
+  const [instruction, setInstruction] = useState(item.instruction || '');
+  const retry = () => onRetry(item.original, instruction.trim());
+
+  return (
+    <div className={`rounded-3xl border p-4 flex flex-col gap-3 ${item.error ? 'border-red-500/30 bg-red-500/[0.03]' : 'border-white/10 bg-white/[0.02]'}`}>
+      <div className="relative aspect-video rounded-2xl overflow-hidden bg-black group">
+        <MediaImage src={item.original} className="absolute inset-0 w-full h-full object-contain" />
+        {item.result && (
+          <>
+            <div className="absolute inset-0 pointer-events-none" style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}>
+              <MediaImage src={item.result} className="w-full h-full object-contain" />
+            </div>
+            <div className="absolute top-0 bottom-0 w-[2px] bg-emerald-400 pointer-events-none shadow-[0_0_15px_rgba(52,211,153,0.8)]" style={{ left: `${split}%` }}>
+              <div className="absolute top-1/2 -translate-y-1/2 -left-4 w-8 h-8 rounded-full bg-[#10b981] border-2 border-[#050508] flex items-center justify-center text-white text-xs font-black group-hover:scale-110 transition-transform">↔</div>
+            </div>
+            <input type="range" min="0" max="100" value={split} onChange={e => setSplit(parseInt(e.target.value))} className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize" />
+            <span className="absolute top-2 left-2 px-2 py-0.5 rounded-full bg-emerald-600/90 text-[8px] font-black pointer-events-none">After</span>
+            <span className="absolute top-2 right-2 px-2 py-0.5 rounded-full bg-cyan-600/90 text-[8px] font-black pointer-events-none">Before</span>
+          </>
+        )}
+        {item.isRetrying && (
+          <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
+            <div className="w-8 h-8 border-2 border-t-emerald-400 border-white/10 rounded-full animate-spin"></div>
+          </div>
+        )}
+      </div>
+      {item.error && <ErrorNotice error={item.error} compact />}
+      <input
+        value={instruction}
+        onChange={e => setInstruction(e.target.value)}
+        onKeyDown={e => e.key === 'Enter' && !item.isRetrying && retry()}
+        placeholder="补充指令，如「右下角的字幕没去干净」"
+        className="px-3 py-2 bg-white/5 rounded-xl text-[11px] outline-none border border-white/5 focus:border-emerald-500/50"
+      />
+      <div className="flex gap-2">
+        <button onClick={() => onAccept([item.original])} disabled={!item.result || item.isRetrying} title="用净化结果替换原图" className="flex-1 h-9 rounded-xl bg-emerald-600 text-[9px] font-black uppercase hover:brightness-110 disabled:opacity-20">✅ 接受</button>
+        <button onClick={retry} disabled={item.isRetrying} title="按补充指令重新净化原图" className="flex-1 h-9 rounded-xl bg-white/5 text-[9px] font-black uppercase hover:bg-white/10 disabled:opacity-20">🔁 重试</button>
+        <button onClick={() => onReject(item.original)} disabled={item.isRetrying} title="丢弃结果，保留原图" className="flex-1 h-9 rounded-xl bg-white/5 text-[9px] font-black uppercase hover:bg-red-500/30 disabled:opacity-20">✖ 拒绝</button>
+      </div>
+    </div>
+  );
+};
+
+// 批量净化审阅：原图与结果逐对滑动对比，接受 / 拒绝 / 带补充指令重试
+const PurifyReview: React.FC<PurifyReviewProps> = ({ items, onAccept, onReject, onRetry, onClose }) => {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const ready = items.filter(item => item.result && !item.isRetrying);
+  const failed = items.filter(item => item.error).length;
+
+  return (
+    <div className="fixed inset-0 z-[1200] bg-black/70 backdrop-blur-sm flex items-center justify-center text-white animate-in fade-in" onClick={onClose}>
+      <div onClick={e => e.stopPropagation()} className="w-[1200px] max-w-[95vw] h-[85vh] rounded-[32px] bg-[#0c0c11] border border-white/10 p-8 flex flex-col gap-6 shadow-2xl">
+        <div className="flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-xl font-black italic text-emerald-400">批量净化审阅</h3>
+            <p className="text-[10px] opacity-40 mt-1">待审阅 {items.length} 张{failed > 0 ? ` · ${failed} 张失败` : ''} · 接受后结果将替换原图</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={() => onAccept(ready.map(item => item.original))} disabled={ready.length === 0} className="px-6 py-3 rounded-2xl bg-emerald-600 text-[10px] font-black uppercase tracking-widest hover:brightness-110 disabled:opacity-20">全部接受 ({ready.length})</button>
+            <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full bg-white/5 hover:bg-red-500/20 hover:rotate-90 transition-all text-xl font-light">×</button>
+          </div>
+        </div>
+        {items.length > 0 ? (
+          <div className="flex-1 min-h-0 overflow-y-auto scrollbar-hide grid grid-cols-2 xl:grid-cols-3 gap-6 content-start">
+            {items.map(item => <ReviewCard key={item.original} item={item} onAccept={onAccept} onReject={onReject} onRetry={onRetry} />)}
+          </div>
+        ) : (
+          <div className="flex-1 flex items-center justify-center opacity-20 text-[10px] font-black uppercase tracking-widest">全部审阅完毕</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PurifyReview;
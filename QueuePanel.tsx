@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { Job, JobKind, JobStatus, jobQueue, useJobs } from './jobQueue';
+
+interface QueuePanelProps {
+  isDark: boolean;
+  concurrency: number;
+  onConcurrencyChange: (n: number) => void;
+}
+
+const KIND_ICONS: Record<JobKind, string> = {
+  distill: '🎨',
+  deduct: '🧠',
+  render: '🎬',
+  purify: '✨',
+  detect: '🔍',
+  voice: '🎙️',
+  ambience: '🌊',
+  video: '🎞️'
+};
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  queued: '排队中',
+  running: '执行中',
+  retrying: '等待重试',
+  done: '完成',
+  failed: '失败',
+  cancelled: '已取消'
+};
+
+const STATUS_TONES: Record<JobStatus, string> = {
+  queued: 'text-white/40',
+  running: 'text-blue-400',
+  retrying: 'text-amber-400',
+  done: 'text-emerald-400',
+  failed: 'text-red-400',
+  cancelled: 'text-white/20'
+};
+
+const ORDER: Record<JobStatus, number> = { running: 0, retrying: 1, queued: 2, failed: 3, cancelled: 4, done: 5 };
+
+const isActive = (job: Job) => job.status === 'queued' || job.status === 'running' || job.status === 'retrying';
+
+// 重试倒计时需要每秒刷新
+const useNow = (enabled: boolean) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [enabled]);
+  return now;
+};
+
+const QueuePanel: React.FC<QueuePanelProps> = ({ isDark, concurrency, onConcurrencyChange }) => {
+  const [open, setOpen] = useState(false);
+  const jobs = useJobs();
+  const active = jobs.filter(isActive);
+  const running = jobs.filter(j => j.status === 'running').length;
+  const now = useNow(open && jobs.some(j => j.status === 'retrying' || j.status === 'running'));
+
+  const sorted = [...jobs].sort((a, b) => ORDER[a.status] - ORDER[b.status] || b.priority - a.priority || a.createdAt - b.createdAt);
+
+  const describe = (job: Job) => {
+    if (job.status === 'retrying' && job.retryAt) return `${Math.max(0, Math.ceil((job.retryAt - now) / 1000))}s 后第 ${job.attempts + 1} 次尝试`;
+    if (job.status === 'running' && job.startedAt) return `${Math.round((now - job.startedAt) / 1000)}s${job.attempts > 1 ? ` · 第 ${job.attempts} 次` : ''}`;
+    if (job.status === 'queued') return `优先级 ${job.priority}`;
+    return job.error || '';
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(o => !o)} className={`flex items-center gap-2 px-4 py-2 rounded-full border text-[10px] font-black uppercase transition-all ${active.length > 0 ? 'bg-blue-600/10 text-blue-400 border-blue-500/20' : isDark ? 'bg-white/5 border-white/5 opacity-60 hover:opacity-100' : 'bg-black/5 border-black/5 opacity-60 hover:opacity-100'}`}>
+        {running > 0 && <span className="w-2 h-2 rounded-full bg-blue-400 animate-pulse"></span>}
+        队列 {active.length > 0 ? `${running}/${active.length}` : ''}
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-[900]" onClick={() => setOpen(false)} />
+          <div className={`absolute right-0 top-12 z-[901] w-[420px] rounded-3xl border p-4 flex flex-col gap-3 shadow-2xl ${isDark ? 'bg-[#121217] border-white/10' : 'bg-white border-black/10'}`}>
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-black uppercase opacity-40 tracking-widest">生成任务队列</span>
+              <label className="flex items-center gap-2 text-[9px] font-black uppercase opacity-60">
+                并发
+                <select value={concurrency} onChange={e => onConcurrencyChange(parseInt(e.target.value))} className="bg-transparent outline-none">
+                  {[1, 2, 3, 4, 6].map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </label>
+            </div>
+            <div className="max-h-[360px] overflow-y-auto space-y-1 scrollbar-hide">
+              {sorted.length === 0 && <p className="py-8 text-center text-[10px] font-black uppercase opacity-20 tracking-widest">暂无任务</p>}
+              {sorted.map(job => (
+                <div key={job.id} className="group flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-white/5">
+                  <span className="text-sm">{KIND_ICONS[job.kind]}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-black truncate">{job.label}</p>
+                    <p className="text-[8px] opacity-40 truncate" title={job.error}>{describe(job)}</p>
+                  </div>
+                  <span className={`text-[8px] font-black uppercase shrink-0 ${STATUS_TONES[job.status]}`}>{STATUS_LABELS[job.status]}</span>
+                  {isActive(job) && (
+                    <div className="flex gap-1">
+                      {job.status === 'queued' && <button onClick={() => jobQueue.prioritize(job.id)} title="插队" className="w-6 h-6 rounded-lg hover:bg-white/10 text-[10px]">⏫</button>}
+                      <button onClick={() => jobQueue.cancel(job.id)} title="取消" className="w-6 h-6 rounded-lg hover:bg-red-500/20 text-[10px]">✕</button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2 pt-3 border-t border-white/5">
+              <button onClick={() => jobQueue.clearFinished()} className="flex-1 py-2 rounded-xl bg-white/5 text-[9px] font-black uppercase hover:bg-white/10">清除已结束</button>
+              <button onClick={() => jobQueue.cancelAll()} disabled={active.length === 0} className={`flex-1 py-2 rounded-xl text-[9px] font-black uppercase ${active.length > 0 ? 'bg-red-500/10 text-red-400 hover:bg-red-500/20' : 'bg-white/5 opacity-20'}`}>全部取消</button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QueuePanel;
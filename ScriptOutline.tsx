@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Shot } from './types';
+import { ParsedScript, ScriptScene, MAX_SCENE_SHOTS } from './scriptParser';
+import { DeductTarget, sceneOrderOf } from './continuity';
+
+interface ScriptOutlineProps {
+  parsed: ParsedScript;
+  shots: Shot[];
+  isDark: boolean;
+  canDeduct: boolean;
+  onJump: (scene: ScriptScene) => void;
+  onDeduct: (targets: DeductTarget[]) => void;
+}
+
+// 剧本旁的场景大纲：逐场查看角色 / 台词 / 节拍，并按场景推演分镜
+const ScriptOutline: React.FC<ScriptOutlineProps> = ({ parsed, shots, isDark, canDeduct, onJump, onDeduct }) => {
+  // 按场景序号记录镜头数：同名场景标题各自独立
+  const [counts, setCounts] = useState<Record<number, number>>({});
+  const headings = parsed.scenes.map(s => s.heading);
+  const countOf = (index: number) => counts[index] ?? parsed.scenes[index].suggestedShots;
+  const shotsIn = (index: number) => shots.filter(s => sceneOrderOf(s, headings) === index).length;
+  const toTarget = (index: number): DeductTarget => {
+    const scene = parsed.scenes[index];
+    return { kind: 'scene', index, heading: scene.heading, text: scene.text, count: countOf(index), headings };
+  };
+
+  const pending = parsed.scenes.map((_, i) => i).filter(i => shotsIn(i) === 0);
+  const pendingShots = pending.reduce((sum, i) => sum + countOf(i), 0);
+
+  return (
+    <div className={`w-[260px] shrink-0 flex flex-col gap-4 rounded-3xl border p-4 overflow-hidden ${isDark ? 'bg-black/20 border-white/5' : 'bg-black/5 border-black/5'}`}>
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-black uppercase opacity-40 tracking-widest">场景大纲</span>
+        <span className="text-[9px] font-black opacity-40">{parsed.scenes.length} 场 · {parsed.characters.length} 角色</span>
+      </div>
+      {parsed.characters.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {parsed.characters.map(name => <span key={name} className="px-2 py-0.5 rounded-full bg-violet-500/10 text-violet-400 text-[8px] font-black">{name}</span>)}
+        </div>
+      )}
+      <div className="flex-1 overflow-y-auto scrollbar-hide space-y-2">
+        {parsed.scenes.map((scene, i) => {
+          const existing = shotsIn(i);
+          return (
+            <div key={`${i}-${scene.heading}`} className={`p-3 rounded-2xl border ${isDark ? 'border-white/5 bg-white/[0.02]' : 'border-black/5 bg-white/60'}`}>
+              <button onClick={() => onJump(scene)} title="在剧本中定位" className="w-full text-left text-[10px] font-black truncate hover:text-blue-400">{i + 1}. {scene.heading}</button>
+              <p className="text-[8px] opacity-40 mt-1 truncate" title={scene.characters.join('、')}>
+                💬 {scene.dialogue.length} · 节拍 {scene.beats}{scene.characters.length > 0 ? ` · ${scene.characters.join('、')}` : ''}
+              </p>
+              <div className="flex items-center gap-2 mt-2">
+                <input
+                  type="number" min={1} max={MAX_SCENE_SHOTS * 2} value={countOf(i)}
+                  onChange={e => setCounts(prev => ({ ...prev, [i]: Math.max(1, Math.min(MAX_SCENE_SHOTS * 2, parseInt(e.target.value) || 1)) }))}
+                  title={`建议 ${scene.suggestedShots} 镜（按节拍密度估算）`}
+                  className="w-12 bg-transparent text-[10px] font-black outline-none border-b border-white/10"
+                />
+                <span className="text-[8px] opacity-40 flex-1">镜{existing > 0 ? ` · 已有 ${existing}` : ''}</span>
+                <button disabled={!canDeduct} onClick={() => onDeduct([toTarget(i)])} className="px-3 py-1 rounded-lg bg-blue-600/20 text-blue-400 text-[8px] font-black uppercase hover:bg-blue-600 hover:text-white disabled:opacity-20 transition-all">{existing > 0 ? '追加' : '推演'}</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <button disabled={!canDeduct || pending.length === 0} onClick={() => onDeduct(pending.map(toTarget))} className="w-full py-3 rounded-2xl bg-blue-600 text-white text-[9px] font-black uppercase tracking-widest hover:brightness-110 disabled:opacity-20">
+        {pending.length > 0 ? `推演剩余 ${pending.length} 场 · ${pendingShots} 镜` : '所有场景已推演'}
+      </button>
+    </div>
+  );
+};
+
+export default ScriptOutline;
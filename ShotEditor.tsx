@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { Shot, StylePreset } from './types';
+import { MediaImage } from './Media';
+import { getShotTakes, getHeroTakeId, selectTake, removeTake } from './shotUtils';
+
+interface ShotEditorProps {
+  shot: Shot;
+  stylePresets: StylePreset[];
+  canRender: boolean;
+  onChange: (shot: Shot) => void;
+  // styleId 为 null 时按项目当前风格渲染，省略时按镜头自身的风格
+  onRender: (shot: Shot, styleId?: string | null) => void;
+  onClose: () => void;
+}
+
+type EditableField = 'name' | 'composition' | 'flowLogic' | 'chineseDescription' | 'englishPrompt' | 'dialogue' | 'speaker' | 'emotion' | 'ambientSfx';
+
+const FIELDS: { key: EditableField; label: string; multiline?: boolean }[] = [
+  { key: 'name', label: '镜头名' },
+  { key: 'composition', label: '构图' },
+  { key: 'flowLogic', label: '调度' },
+  { key: 'chineseDescription', label: '画面描述', multiline: true },
+  { key: 'englishPrompt', label: '渲染 Prompt', multiline: true },
+  { key: 'speaker', label: '说话人' },
+  { key: 'emotion', label: '情绪' },
+  { key: 'dialogue', label: '台词', multiline: true },
+  { key: 'ambientSfx', label: '环境声' }
+];
+
+const GENDER_LABELS: Record<Shot['gender'], string> = {
+  male: '男声',
+  female: '女声',
+  child: '童声',
+  narrator: '旁白'
+};
+
+// 风格下拉中代表项目当前风格的取值
+const CURRENT_STYLE = '';
+
+const ShotEditor: React.FC<ShotEditorProps> = ({ shot, stylePresets, canRender, onChange, onRender, onClose }) => {
+  const [draft, setDraft] = useState<Shot>(shot);
+  const [compareId, setCompareId] = useState<string>(CURRENT_STYLE);
+  const takes = getShotTakes(shot);
+  const heroId = getHeroTakeId(shot);
+  const [viewingId, setViewingId] = useState<string | undefined>(heroId);
+
+  // 渲染完成后自动翻到最新一条
+  useEffect(() => { setViewingId(getHeroTakeId(shot)); }, [shot.takes?.length]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const viewingIndex = Math.max(0, takes.findIndex(t => t.id === viewingId));
+  const viewing = takes[viewingIndex];
+  const isDirty = FIELDS.some(f => draft[f.key] !== shot[f.key]) || draft.gender !== shot.gender || draft.duration !== shot.duration || draft.styleId !== shot.styleId;
+
+  const setField = (key: keyof Shot, value: any) => setDraft(prev => ({ ...prev, [key]: value }));
+
+  // 只合并文本字段，避免覆盖编辑期间完成的渲染结果
+  const applyDraft = (): Shot => {
+    const next: Shot = { ...shot, gender: draft.gender, duration: draft.duration, styleId: draft.styleId };
+    FIELDS.forEach(f => { next[f.key] = draft[f.key]; });
+    onChange(next);
+    return next;
+  };
+
+  const styleOptions = [{ id: CURRENT_STYLE, name: '项目当前风格' }, ...stylePresets];
+  const compareOptions = styleOptions.filter(o => o.id !== (draft.styleId || CURRENT_STYLE));
+  const compareWith = compareOptions.find(o => o.id === compareId) || compareOptions[0];
+
+  // A/B：同一 Prompt 分别按两套风格各渲染一条，在渲染记录里对照
+  const renderCompare = () => {
+    if (!compareWith) return;
+    const next = applyDraft();
+    onRender(next, draft.styleId || null);
+    onRender(next, compareWith.id || null);
+  };
+
+  const flip = (delta: number) => {
+    if (takes.length === 0) return;
+    setViewingId(takes[(viewingIndex + delta + takes.length) % takes.length].id);
+  };
+
+  const deleteTake = (takeId: string) => {
+    if (!window.confirm('删除这条渲染记录？')) return;
+    onChange(removeTake(shot, takeId));
+    if (takeId === viewingId) setViewingId(undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1200] bg-black/70 backdrop-blur-sm flex items-center justify-center text-white animate-in fade-in" onClick={onClose}>
+      <div onClick={e => e.stopPropagation()} className="w-[1100px] max-w-[95vw] h-[80vh] rounded-[32px] bg-[#0c0c11] border border-white/10 p-8 flex flex-col gap-6 shadow-2xl">
+        <div className="flex items-center justify-between shrink-0">
+          <h3 className="text-xl font-black italic text-blue-400">编辑分镜 · {shot.name}</h3>
+          <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full bg-white/5 hover:bg-red-500/20 hover:rotate-90 transition-all text-xl font-light">×</button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-[1.2fr_1fr] gap-8">
+          {/* Takes */}
+          <div className="flex flex-col gap-4 min-h-0">
+            <div className="flex-1 min-h-0 rounded-3xl bg-black border border-white/5 relative overflow-hidden flex items-center justify-center">
+              {viewing ? <MediaImage src={viewing.imageUrl} className="max-w-full max-h-full object-contain" /> : (
+                <span className="text-[10px] font-black uppercase opacity-20 tracking-widest">{shot.isGenerating ? '绘制中...' : '尚无渲染记录'}</span>
+              )}
+              {takes.length > 1 && (
+                <>
+                  <button onClick={() => flip(-1)} className="absolute left-3 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-black/60 hover:bg-black/80 text-lg">‹</button>
+                  <button onClick={() => flip(1)} className="absolute right-3 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-black/60 hover:bg-black/80 text-lg">›</button>
+                </>
+              )}
+              {viewing && (
+                <div className="absolute bottom-3 left-3 right-3 flex items-center justify-between">
+                  <span className="px-3 py-1 rounded-full bg-black/60 text-[8px] font-black uppercase tracking-widest">第 {viewingIndex + 1} / {takes.length} 条{viewing.id === heroId ? ' · 主镜' : ''}{viewing.styleName ? ` · 🎨 ${viewing.styleName}` : ''}</span>
+                  <div className="flex gap-2">
+                    {viewing.id !== heroId && (
+                      <button onClick={() => onChange(selectTake(shot, viewing.id))} className="px-4 py-1 rounded-full bg-blue-600 text-[8px] font-black uppercase hover:brightness-110">⭐ 设为主镜</button>
+                    )}
+                    <button onClick={() => deleteTake(viewing.id)} className="px-4 py-1 rounded-full bg-black/60 text-[8px] font-black uppercase hover:bg-red-500/40">🗑️ 删除</button>
+                  </div>
+                </div>
+              )}
+            </div>
+            {viewing && viewing.prompt !== shot.englishPrompt && (
+              <p className="text-[9px] opacity-40 line-clamp-2 shrink-0" title={viewing.prompt}>此条渲染 Prompt: {viewing.prompt}</p>
+            )}
+            <div className="flex gap-2 overflow-x-auto scrollbar-hide shrink-0">
+              {takes.map((take, i) => (
+                <button key={take.id} onClick={() => setViewingId(take.id)} className={`relative w-24 aspect-video shrink-0 rounded-xl overflow-hidden border-2 transition-all ${take.id === viewing?.id ? 'border-blue-500' : 'border-transparent opacity-40 hover:opacity-100'}`}>
+                  <MediaImage src={take.imageUrl} className="w-full h-full object-cover" />
+                  <span className="absolute top-1 left-1 px-1.5 rounded bg-black/60 text-[8px] font-black">{take.id === heroId ? '⭐' : i + 1}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Fields */}
+          <div className="flex flex-col gap-4 min-h-0 overflow-y-auto scrollbar-hide pr-2">
+            {FIELDS.map(f => (
+              <label key={f.key} className="flex flex-col gap-1">
+                <span className="text-[9px] font-black uppercase opacity-40 tracking-widest">{f.label}</span>
+                {f.multiline ? (
+                  <textarea value={draft[f.key] || ''} onChange={e => setField(f.key, e.target.value)} rows={f.key === 'englishPrompt' ? 5 : 3} className="px-4 py-3 bg-white/5 rounded-xl text-xs leading-relaxed outline-none border border-white/5 focus:border-blue-500/50 resize-none" />
+                ) : (
+                  <input value={draft[f.key] || ''} onChange={e => setField(f.key, e.target.value)} className="px-4 py-2 bg-white/5 rounded-xl text-xs outline-none border border-white/5 focus:border-blue-500/50" />
+                )}
+              </label>
+            ))}
+            <label className="flex flex-col gap-1">
+              <span className="text-[9px] font-black uppercase opacity-40 tracking-widest">风格</span>
+              <select value={draft.styleId || CURRENT_STYLE} onChange={e => setField('styleId', e.target.value || undefined)} className="px-4 py-2 bg-white/5 rounded-xl text-xs outline-none border border-white/5">
+                {styleOptions.map(o => <option key={o.id} value={o.id} className="bg-[#0c0c11]">{o.name}</option>)}
+              </select>
+            </label>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="flex flex-col gap-1">
+                <span className="text-[9px] font-black uppercase opacity-40 tracking-widest">声线</span>
+                <select value={draft.gender} onChange={e => setField('gender', e.target.value)} className="px-4 py-2 bg-white/5 rounded-xl text-xs outline-none border border-white/5">
+                  {(Object.keys(GENDER_LABELS) as Shot['gender'][]).map(g => <option key={g} value={g} className="bg-[#0c0c11]">{GENDER_LABELS[g]}</option>)}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-[9px] font-black uppercase opacity-40 tracking-widest">时长 (秒，留空自动)</span>
+                <input type="number" min="1" step="0.5" value={draft.duration ?? ''} onChange={e => setField('duration', e.target.value ? parseFloat(e.target.value) : undefined)} className="px-4 py-2 bg-white/5 rounded-xl text-xs outline-none border border-white/5 focus:border-blue-500/50" />
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 shrink-0">
+          {compareWith && (
+            <div className="mr-auto flex items-center gap-2">
+              <select value={compareWith.id} onChange={e => setCompareId(e.target.value)} className="px-4 py-3 bg-white/5 rounded-2xl text-[10px] outline-none border border-white/5">
+                {compareOptions.map(o => <option key={o.id} value={o.id} className="bg-[#0c0c11]">对比：{o.name}</option>)}
+              </select>
+              <button onClick={renderCompare} disabled={!canRender || shot.isGenerating} title="按所选风格与对比风格各渲染一条" className="px-6 py-3 rounded-2xl bg-white/5 text-[10px] font-black uppercase tracking-widest hover:bg-white/10 disabled:opacity-20">🅰️/🅱️ 对比渲染</button>
+            </div>
+          )}
+          <button onClick={() => setDraft(shot)} disabled={!isDirty} className={`px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${isDirty ? 'bg-white/5 hover:bg-white/10' : 'opacity-20'}`}>还原</button>
+          <button onClick={applyDraft} disabled={!isDirty} className={`px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${isDirty ? 'bg-white/10 hover:bg-white/20' : 'opacity-20'}`}>保存</button>
+          <button onClick={() => onRender(applyDraft())} disabled={!canRender || shot.isGenerating} className={`px-8 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${!canRender || shot.isGenerating ? 'bg-white/5 opacity-20' : 'bg-blue-600 text-white hover:brightness-110 shadow-xl shadow-blue-600/20'}`}>{shot.isGenerating ? '绘制中...' : '🎬 重新渲染此镜'}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShotEditor;
@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from 'react';
+import { StyleDistillation, StylePreset } from './types';
+import { EMPTY_STYLE, MAX_SWATCHES, createStylePreset, isSameStyle } from './styles';
+
+interface StyleEditorProps {
+  style: StyleDistillation | null;
+  presets: StylePreset[];
+  onStyleChange: (style: StyleDistillation) => void;
+  onPresetsChange: (presets: StylePreset[]) => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+type TextField = 'summary' | 'keywords' | 'technicalParams' | 'colorPalette';
+
+const FIELDS: { key: TextField; label: string; multiline?: boolean }[] = [
+  { key: 'summary', label: '风格总结', multiline: true },
+  { key: 'keywords', label: '关键词' },
+  { key: 'technicalParams', label: '技术参数（镜头 / 光圈 / 调色，注入渲染 Prompt）' },
+  { key: 'colorPalette', label: '配色描述' }
+];
+
+const MEDIUM_LABELS: Record<StyleDistillation['detectedMedium'], string> = {
+  photorealistic: '写实摄影',
+  illustration: '插画 / 动画',
+  unknown: '未识别'
+};
+
+const HEX = /^#[0-9a-f]{6}$/i;
+
+const Swatches: React.FC<{ codes: string[]; size?: string }> = ({ codes, size = 'w-3 h-3' }) => (
+  <div className="flex gap-1">
+    {codes.map((hex, i) => <span key={i} className={`${size} rounded-full border border-white/10`} style={{ background: hex }} />)}
+  </div>
+);
+
+// 风格 DNA 编辑器：左侧为当前风格与命名预设，右侧编辑所选风格的全部字段
+const StyleEditor: React.FC<StyleEditorProps> = ({ style, presets, onStyleChange, onPresetsChange, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string>(CURRENT);
+  const selectedPreset = presets.find(p => p.id === selectedId);
+  const source = selectedPreset ? selectedPreset.style : style || EMPTY_STYLE;
+  const [draft, setDraft] = useState<StyleDistillation>(source);
+  const [presetName, setPresetName] = useState('');
+
+  // 切换风格或当前风格在外部变化（如重新解析、套用预设）时同步草稿
+  useEffect(() => { setDraft(source); }, [source]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const isDirty = !isSameStyle(draft, source);
+  // 色板只接受 #RRGGBB，避免无效色值被写进渲染 Prompt
+  const invalidHex = draft.hexCodes.filter(h => !HEX.test(h));
+  const canSave = isDirty && invalidHex.length === 0;
+  const setField = <K extends keyof StyleDistillation>(key: K, value: StyleDistillation[K]) => setDraft(prev => ({ ...prev, [key]: value }));
+  const setSwatch = (index: number, hex: string) => setField('hexCodes', draft.hexCodes.map((h, i) => i === index ? hex : h));
+
+  const save = () => {
+    if (!canSave) return;
+    if (selectedPreset) onPresetsChange(presets.map(p => p.id === selectedPreset.id ? { ...p, style: draft } : p));
+    else onStyleChange(draft);
+  };
+
+  const saveAsPreset = () => {
+    const name = presetName.trim();
+    if (!name || invalidHex.length > 0) return;
+    const preset = createStylePreset(name, draft);
+    onPresetsChange([...presets, preset]);
+    setPresetName('');
+    setSelectedId(preset.id);
+  };
+
+  const deletePreset = (preset: StylePreset) => {
+    if (!window.confirm(`删除风格预设「${preset.name}」？使用该预设的镜头将回到当前风格。`)) return;
+    onPresetsChange(presets.filter(p => p.id !== preset.id));
+    setSelectedId(CURRENT);
+  };
+
+  const renamePreset = (preset: StylePreset, name: string) => onPresetsChange(presets.map(p => p.id === preset.id ? { ...p, name } : p));
+
+  return (
+    <div className="fixed inset-0 z-[1200] bg-black/70 backdrop-blur-sm flex items-center justify-center text-white animate-in fade-in" onClick={onClose}>
+      <div onClick={e => e.stopPropagation()} className="w-[1000px] max-w-[95vw] h-[80vh] rounded-[32px] bg-[#0c0c11] border border-white/10 p-8 flex flex-col gap-6 shadow-2xl">
+        <div className="flex items-center justify-between shrink-0">
+          <h3 className="text-xl font-black italic text-blue-400">视觉 DNA 编辑器</h3>
+          <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full bg-white/5 hover:bg-red-500/20 hover:rotate-90 transition-all text-xl font-light">×</button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-[260px_1fr] gap-8">
+          {/* Presets */}
+          <div className="flex flex-col gap-3 min-h-0">
+            <span className="text-[9px] font-black uppercase opacity-40 tracking-widest">风格</span>
+            <div className="flex-1 overflow-y-auto scrollbar-hide space-y-2">
+              {[{ id: CURRENT, name: '当前风格', style: style || EMPTY_STYLE }, ...presets].map(item => (
+                <button key={item.id} onClick={() => setSelectedId(item.id)} className={`w-full p-3 rounded-2xl border text-left transition-all ${selectedId === item.id ? 'border-blue-500 bg-blue-500/10' : 'border-white/5 bg-white/[0.02] hover:border-white/20'}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-[11px] font-black truncate">{item.name}</span>
+                    {item.id !== CURRENT && isSameStyle(item.style, style) && <span className="text-[8px] font-black text-blue-400 shrink-0">使用中</span>}
+                  </div>
+                  <div className="mt-2"><Swatches codes={item.style.hexCodes} /></div>
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <input value={presetName} onChange={e => setPresetName(e.target.value)} onKeyDown={e => e.key === 'Enter' && saveAsPreset()} placeholder="预设名称，如「回忆」" className="flex-1 min-w-0 px-3 py-2 bg-white/5 rounded-xl text-xs outline-none border border-white/5 focus:border-blue-500/50" />
+              <button onClick={saveAsPreset} disabled={!presetName.trim() || invalidHex.length > 0} title="把右侧正在编辑的风格存为新预设" className="px-3 rounded-xl bg-white/10 text-[9px] font-black uppercase hover:bg-white/20 disabled:opacity-20">存为预设</button>
+            </div>
+          </div>
+
+          {/* Fields */}
+          <div className="flex flex-col gap-4 min-h-0 overflow-y-auto scrollbar-hide pr-2">
+            {selectedPreset && (
+              <label className="flex flex-col gap-1">
+                <span className="text-[9px] font-black uppercase opacity-40 tracking-widest">预设名称</span>
+                <input value={selectedPreset.name} onChange={e => renamePreset(selectedPreset, e.target.value)} className="px-4 py-2 bg-white/5 rounded-xl text-xs outline-none border border-white/5 focus:border-blue-500/50" />
+              </label>
+            )}
+            {FIELDS.map(f => (
+              <label key={f.key} className="flex flex-col gap-1">
+                <span className="text-[9px] font-black uppercase opacity-40 tracking-widest">{f.label}</span>
+                {f.multiline ? (
+                  <textarea value={draft[f.key]} onChange={e => setField(f.key, e.target.value)} rows={4} className="px-4 py-3 bg-white/5 rounded-xl text-xs leading-relaxed outline-none border border-white/5 focus:border-blue-500/50 resize-none" />
+                ) : (
+                  <input value={draft[f.key]} onChange={e => setField(f.key, e.target.value)} className="px-4 py-2 bg-white/5 rounded-xl text-xs outline-none border border-white/5 focus:border-blue-500/50" />
+                )}
+              </label>
+            ))}
+            <div className="flex flex-col gap-2">
+              <span className="text-[9px] font-black uppercase opacity-40 tracking-widest">色板（注入渲染 Prompt）</span>
+              {invalidHex.length > 0 && <span className="text-[9px] text-red-400">色值需为 #RRGGBB 格式：{invalidHex.join('、')}</span>}
+              <div className="flex flex-wrap gap-3">
+                {draft.hexCodes.map((hex, i) => (
+                  <div key={i} className="flex flex-col items-center gap-1 group relative">
+                    <label className="w-12 h-12 rounded-2xl border border-white/10 cursor-pointer relative overflow-hidden" style={{ background: hex }}>
+                      <input type="color" value={HEX.test(hex) ? hex : '#000000'} onChange={e => setSwatch(i, e.target.value.toUpperCase())} className="absolute inset-0 opacity-0 cursor-pointer" />
+                    </label>
+                    <input value={hex} onChange={e => setSwatch(i, e.target.value)} className={`w-16 bg-transparent text-center text-[9px] font-mono outline-none ${HEX.test(hex) ? 'opacity-60' : 'text-red-400'}`} />
+                    <button onClick={() => setField('hexCodes', draft.hexCodes.filter((_, idx) => idx !== i))} className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 text-white rounded-full text-[9px] hidden group-hover:flex items-center justify-center">×</button>
+                  </div>
+                ))}
+                {draft.hexCodes.length < MAX_SWATCHES && (
+                  <button onClick={() => setField('hexCodes', [...draft.hexCodes, '#888888'])} className="w-12 h-12 rounded-2xl border-2 border-dashed border-white/20 text-xl opacity-40 hover:opacity-100">+</button>
+                )}
+              </div>
+            </div>
+            <label className="flex flex-col gap-1">
+              <span className="text-[9px] font-black uppercase opacity-40 tracking-widest">媒介</span>
+              <select value={draft.detectedMedium} onChange={e => setField('detectedMedium', e.target.value as StyleDistillation['detectedMedium'])} className="px-4 py-2 bg-white/5 rounded-xl text-xs outline-none border border-white/5">
+                {(Object.keys(MEDIUM_LABELS) as StyleDistillation['detectedMedium'][]).map(m => <option key={m} value={m} className="bg-[#0c0c11]">{MEDIUM_LABELS[m]}</option>)}
+              </select>
+            </label>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 shrink-0">
+          <div className="flex gap-3">
+            {selectedPreset && (
+              <>
+                <button onClick={() => onStyleChange(selectedPreset.style)} disabled={isSameStyle(selectedPreset.style, style)} title="未单独指定风格的镜头都将使用此预设" className="px-6 py-3 rounded-2xl bg-white/5 text-[10px] font-black uppercase tracking-widest hover:bg-white/10 disabled:opacity-20">设为当前风格</button>
+                <button onClick={() => deletePreset(selectedPreset)} className="px-6 py-3 rounded-2xl bg-white/5 text-[10px] font-black uppercase tracking-widest hover:bg-red-500/30">🗑️ 删除预设</button>
+              </>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button onClick={() => setDraft(source)} disabled={!isDirty} className={`px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${isDirty ? 'bg-white/5 hover:bg-white/10' : 'opacity-20'}`}>还原</button>
+            <button onClick={save} disabled={!canSave} className={`px-8 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${canSave ? 'bg-blue-600 text-white hover:brightness-110 shadow-xl shadow-blue-600/20' : 'bg-white/5 opacity-20'}`}>保存</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StyleEditor;
@@ -0,0 +1,196 @@
+import { base64ToBytes, bytesToBase64 } from './encoding';
+
+// Gemini TTS 输出为 24kHz / 16-bit / 单声道的裸 PCM
+export const PCM_SAMPLE_RATE = 24000;
+
+let sharedContext: AudioContext | null = null;
+
+const getContext = () => {
+  if (!sharedContext) sharedContext = new AudioContext({ sampleRate: PCM_SAMPLE_RATE });
+  if (sharedContext.state === 'suspended') sharedContext.resume();
+  return sharedContext;
+};
+
+export const pcmToAudioBuffer = (b64: string, ctx: BaseAudioContext = getContext()): AudioBuffer => {
+  const bytes = base64ToBytes(b64);
+  const samples = new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2));
+  const buffer = ctx.createBuffer(1, samples.length, PCM_SAMPLE_RATE);
+  const channel = buffer.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) channel[i] = samples[i] / 32768;
+  return buffer;
+};
+
+// 裸 PCM 与 WAV 文件互转（用于工程包中以真实音频文件存放）
+export const pcmToWav = (b64: string): Uint8Array => {
+  const pcm = base64ToBytes(b64);
+  const header = new DataView(new ArrayBuffer(44));
+  const writeTag = (offset: number, tag: string) => tag.split('').forEach((c, i) => header.setUint8(offset + i, c.charCodeAt(0)));
+  writeTag(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.length, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, 1, true);
+  header.setUint32(24, PCM_SAMPLE_RATE, true);
+  header.setUint32(28, PCM_SAMPLE_RATE * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  header.setUint32(40, pcm.length, true);
+  const wav = new Uint8Array(44 + pcm.length);
+  wav.set(new Uint8Array(header.buffer), 0);
+  wav.set(pcm, 44);
+  return wav;
+};
+
+export const wavToPcm = (wav: Uint8Array): string => {
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+  let ptr = 12;
+  while (ptr + 8 <= wav.length) {
+    const tag = String.fromCharCode(...wav.subarray(ptr, ptr + 4));
+    const size = view.getUint32(ptr + 4, true);
+    if (tag === 'data') return bytesToBase64(wav.subarray(ptr + 8, ptr + 8 + size));
+    ptr += 8 + size + (size % 2);
+  }
+  throw new Error("Invalid wav: data chunk not found");
+};
+
+export interface PlaybackTrack {
+  b64: string;
+  volume?: number;
+  loop?: boolean;
+}
+
+export interface PlaybackHandle {
+  stop: () => void;
+  ended: Promise<void>;
+}
+
+export interface PlaybackOptions {
+  // 从第几秒开始播放（暂停后继续）
+  offset?: number;
+  // 为 true 时主轨结束不停止循环轨道，由调用方决定何时 stop（如动态分镜按镜头时长计时）
+  holdLoops?: boolean;
+}
+
+// 同时播放多条 PCM 轨道；以第一条非循环轨道的结束作为整体结束
+export const playTracks = (tracks: PlaybackTrack[], { offset = 0, holdLoops = false }: PlaybackOptions = {}): PlaybackHandle => {
+  const ctx = getContext();
+  const sources: AudioBufferSourceNode[] = [];
+  let resolveEnded: () => void = () => {};
+  const ended = new Promise<void>(resolve => { resolveEnded = resolve; });
+
+  const stop = () => {
+    sources.forEach(s => {
+      s.onended = null;
+      try { s.stop(); } catch { /* already stopped */ }
+    });
+    resolveEnded();
+  };
+
+  tracks.forEach(track => {
+    const source = ctx.createBufferSource();
+    source.buffer = pcmToAudioBuffer(track.b64, ctx);
+    source.loop = !!track.loop;
+    const gain = ctx.createGain();
+    gain.gain.value = track.volume ?? 1;
+    source.connect(gain).connect(ctx.destination);
+    source.start(0, source.loop ? offset % source.buffer.duration : offset);
+    sources.push(source);
+  });
+
+  const lead = sources.find(s => !s.loop);
+  if (lead) lead.onended = holdLoops ? () => resolveEnded() : stop;
+  else if (sources.length === 0) resolveEnded();
+
+  return { stop, ended };
+};
+
+// --- Ambience Synthesis ---
+export interface AmbienceLayer {
+  source: 'white' | 'pink' | 'brown' | 'hum' | 'crackle';
+  filter: 'lowpass' | 'highpass' | 'bandpass';
+  frequency: number;
+  gain: number;
+  pulseRate: number;
+}
+
+export interface AmbienceRecipe {
+  layers: AmbienceLayer[];
+}
+
+const fillNoise = (data: Float32Array, source: AmbienceLayer['source'], density: number) => {
+  let b0 = 0, b1 = 0, b2 = 0, last = 0;
+  for (let i = 0; i < data.length; i++) {
+    const white = Math.random() * 2 - 1;
+    if (source === 'pink') {
+      b0 = 0.99765 * b0 + white * 0.099046;
+      b1 = 0.963 * b1 + white * 0.2965164;
+      b2 = 0.57 * b2 + white * 1.0526913;
+      data[i] = (b0 + b1 + b2 + white * 0.1848) * 0.2;
+    } else if (source === 'brown') {
+      last = (last + 0.02 * white) / 1.02;
+      data[i] = last * 3.5;
+    } else if (source === 'crackle') {
+      data[i] = Math.random() < density / PCM_SAMPLE_RATE ? white : 0;
+    } else {
+      data[i] = white;
+    }
+  }
+};
+
+// 按配方离线合成一段环境声，输出与配音相同格式的 PCM base64
+export const synthesizeAmbience = async (recipe: AmbienceRecipe, seconds = 8): Promise<string> => {
+  const length = PCM_SAMPLE_RATE * seconds;
+  const ctx = new OfflineAudioContext(1, length, PCM_SAMPLE_RATE);
+  const master = ctx.createGain();
+  master.gain.value = 0.8;
+  master.connect(ctx.destination);
+
+  recipe.layers.forEach(layer => {
+    let node: AudioScheduledSourceNode;
+    if (layer.source === 'hum') {
+      const osc = ctx.createOscillator();
+      osc.frequency.value = layer.frequency;
+      node = osc;
+    } else {
+      const buffer = ctx.createBuffer(1, length, PCM_SAMPLE_RATE);
+      fillNoise(buffer.getChannelData(0), layer.source, Math.max(1, layer.pulseRate * 40));
+      const src = ctx.createBufferSource();
+      src.buffer = buffer;
+      node = src;
+    }
+    const filter = ctx.createBiquadFilter();
+    filter.type = layer.filter;
+    filter.frequency.value = Math.min(Math.max(layer.frequency, 20), PCM_SAMPLE_RATE / 2 - 1);
+    const gain = ctx.createGain();
+    gain.gain.value = Math.min(Math.max(layer.gain, 0), 1);
+    // 呼吸感：用低频振荡调制音量（风声、海浪）
+    if (layer.pulseRate > 0 && layer.source !== 'crackle') {
+      const lfo = ctx.createOscillator();
+      lfo.frequency.value = layer.pulseRate;
+      const depth = ctx.createGain();
+      depth.gain.value = gain.gain.value * 0.5;
+      lfo.connect(depth).connect(gain.gain);
+      lfo.start();
+    }
+    node.connect(filter).connect(gain).connect(master);
+    node.start();
+  });
+
+  // 首尾淡入淡出，便于循环铺底
+  const fade = Math.min(0.5, seconds / 4);
+  master.gain.setValueAtTime(0, 0);
+  master.gain.linearRampToValueAtTime(0.8, fade);
+  master.gain.setValueAtTime(0.8, seconds - fade);
+  master.gain.linearRampToValueAtTime(0, seconds);
+
+  const rendered = await ctx.startRendering();
+  const channel = rendered.getChannelData(0);
+  const pcm = new Int16Array(channel.length);
+  for (let i = 0; i < channel.length; i++) {
+    pcm[i] = Math.max(-1, Math.min(1, channel[i])) * 32767;
+  }
+  return bytesToBase64(new Uint8Array(pcm.buffer));
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { placeShots, getTargetScene, sceneOrderOf, DeductTarget } from './continuity';
+import { Shot } from './types';
+
+const HEADINGS = ['INT. KITCHEN - DAY', 'EXT. STREET - NIGHT', 'INT. KITCHEN - DAY'];
+
+const shot = (id: string, scene?: number): Shot => ({
+  id, name: id, composition: '', flowLogic: '', chineseDescription: '', englishPrompt: '', dialogue: '', speaker: '', gender: 'narrator', emotion: '', ambientSfx: '',
+  ...(scene !== undefined ? { scriptScene: HEADINGS[scene], sceneIndex: scene } : {})
+});
+
+const sceneTarget = (index: number): DeductTarget => ({ kind: 'scene', index, heading: HEADINGS[index], text: '', count: 1, headings: HEADINGS });
+
+describe('scene placement', () => {
+  it('同名场景按序号归位', () => {
+    const shots = [shot('k1', 0), shot('s1', 1)];
+    const placed = placeShots(shots, [{ ...shot('k2'), ...getTargetScene(shots, sceneTarget(2)) }], sceneTarget(2));
+    expect(placed.map(s => s.id)).toEqual(['k1', 's1', 'k2']);
+    expect(sceneOrderOf(placed[2], HEADINGS)).toBe(2);
+  });
+
+  it('第三场先推演时排在第二场之前的位置也不会错', () => {
+    const shots = [shot('k1', 0), shot('k3', 2)];
+    expect(placeShots(shots, [shot('s1', 1)], sceneTarget(1)).map(s => s.id)).toEqual(['k1', 's1', 'k3']);
+  });
+
+  it('插入 / 拆机位沿用锚点的场景序号', () => {
+    const shots = [shot('k1', 0), shot('k3', 2)];
+    expect(getTargetScene(shots, { kind: 'expand', shotId: 'k3' })).toEqual({ scriptScene: HEADINGS[2], sceneIndex: 2 });
+  });
+
+  it('未记录序号或序号已失效时按标题找第一处', () => {
+    expect(sceneOrderOf({ ...shot('imported'), scriptScene: HEADINGS[2] }, HEADINGS)).toBe(0);
+    expect(sceneOrderOf({ ...shot('stale'), scriptScene: HEADINGS[1], sceneIndex: 2 }, HEADINGS)).toBe(1);
+  });
+});
@@ -0,0 +1,99 @@
+import { Shot } from './types';
+import { DeductContinuity, ShotBrief } from './providers';
+
+// 推演结果的去向：新段落放在最前；续写接在末尾；插入 / 拆机位紧跟在锚点分镜之后；
+// 按场景推演时按剧本中的场景顺序归位，index 为场景序号，headings 为发起时的场景大纲
+export type DeductTarget =
+  | { kind: 'fresh' }
+  | { kind: 'continue' }
+  | { kind: 'insert'; afterId: string }
+  | { kind: 'expand'; shotId: string }
+  | { kind: 'scene'; index: number; heading: string; text: string; count: number; headings: string[] };
+
+// 只带最近几镜作为上下文，避免 prompt 过长
+export const CONTINUITY_WINDOW = 6;
+
+const toBrief = ({ name, composition, flowLogic, chineseDescription, speaker, dialogue }: Shot): ShotBrief =>
+  ({ name, composition, flowLogic, chineseDescription, speaker, dialogue });
+
+const lastShots = (shots: Shot[], end: number) => shots.slice(Math.max(0, end - CONTINUITY_WINDOW), end).map(toBrief);
+
+// 分镜所属场景在大纲中的序号；序号与标题对不上（剧本已改动）或未记录序号（如分镜表导入）时按标题找第一处
+export const sceneOrderOf = (shot: Shot, headings: string[]): number => {
+  if (!shot.scriptScene) return -1;
+  if (shot.sceneIndex !== undefined && headings[shot.sceneIndex] === shot.scriptScene) return shot.sceneIndex;
+  return headings.indexOf(shot.scriptScene);
+};
+
+// 排在同场景或更早场景的最后一镜之后；前面没有时排在更晚场景之前
+const sceneInsertIndex = (shots: Shot[], order: number, headings: string[]) => {
+  const orderOf = (shot: Shot) => sceneOrderOf(shot, headings);
+  let last = -1;
+  shots.forEach((shot, i) => {
+    if (orderOf(shot) >= 0 && orderOf(shot) <= order) last = i;
+  });
+  if (last >= 0) return last + 1;
+  const later = shots.findIndex(shot => orderOf(shot) > order);
+  return later >= 0 ? later : shots.length;
+};
+
+export const buildContinuity = (shots: Shot[], target: DeductTarget): DeductContinuity | undefined => {
+  switch (target.kind) {
+    case 'scene': {
+      const index = sceneInsertIndex(shots, target.index, target.headings);
+      return index > 0 ? { mode: 'continue', previous: lastShots(shots, index) } : undefined;
+    }
+    case 'continue':
+      return shots.length > 0 ? { mode: 'continue', previous: lastShots(shots, shots.length) } : undefined;
+    case 'insert': {
+      const index = shots.findIndex(s => s.id === target.afterId);
+      if (index < 0 || index >= shots.length - 1) return undefined;
+      return { mode: 'insert', previous: lastShots(shots, index + 1), next: toBrief(shots[index + 1]) };
+    }
+    case 'expand': {
+      const shot = shots.find(s => s.id === target.shotId);
+      return shot ? { mode: 'expand', target: toBrief(shot) } : undefined;
+    }
+    default:
+      return undefined;
+  }
+};
+
+// 按场景推演自带镜头数，其余使用控制台上选定的数量
+export const getTargetCount = (target: DeductTarget, fallback: number): number => target.kind === 'scene' ? target.count : fallback;
+
+export const describeTarget = (shots: Shot[], target: DeductTarget, count: number): string => {
+  switch (target.kind) {
+    case 'continue':
+      return `续写 ${count} 个分镜`;
+    case 'insert':
+      return `插入 ${count} 个过渡分镜`;
+    case 'expand':
+      return `「${shots.find(s => s.id === target.shotId)?.name || '分镜'}」拆分 ${count} 个机位`;
+    case 'scene':
+      return `「${target.index + 1}. ${target.heading}」推演 ${count} 个分镜`;
+    default:
+      return `推演 ${count} 个分镜`;
+  }
+};
+
+// 新分镜归属的剧本场景：插入 / 拆机位沿用锚点分镜的场景
+export const getTargetScene = (shots: Shot[], target: DeductTarget): Pick<Shot, 'scriptScene' | 'sceneIndex'> => {
+  if (target.kind === 'scene') return { scriptScene: target.heading, sceneIndex: target.index };
+  const anchorId = target.kind === 'insert' ? target.afterId : target.kind === 'expand' ? target.shotId : undefined;
+  const anchor = shots.find(s => s.id === anchorId);
+  return { scriptScene: anchor?.scriptScene, sceneIndex: anchor?.sceneIndex };
+};
+
+// 推演期间分镜可能被增删；锚点已不存在时退回到末尾
+export const placeShots = (shots: Shot[], added: Shot[], target: DeductTarget): Shot[] => {
+  if (target.kind === 'fresh') return [...added, ...shots];
+  if (target.kind === 'scene') {
+    const at = sceneInsertIndex(shots, target.index, target.headings);
+    return [...shots.slice(0, at), ...added, ...shots.slice(at)];
+  }
+  const anchorId = target.kind === 'insert' ? target.afterId : target.kind === 'expand' ? target.shotId : undefined;
+  const index = anchorId ? shots.findIndex(s => s.id === anchorId) : -1;
+  if (index < 0) return [...shots, ...added];
+  return [...shots.slice(0, index + 1), ...added, ...shots.slice(index + 1)];
+};
@@ -0,0 +1,62 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PromptFlowDB, STORES } from './db';
+
+const IMAGE_A = 'data:image/png;base64,iVBORw0KGgo=';
+const IMAGE_B = 'data:image/jpeg;base64,/9j/4AAQ';
+
+// 按基线 v1 的结构建库：只有 kv 仓库，项目数据整块存放
+const seedV1 = (entries: Record<string, any>) => new Promise<void>((resolve, reject) => {
+  const request = indexedDB.open('PromptFlowDB', 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORES.KV);
+  request.onerror = () => reject(request.error);
+  request.onsuccess = () => {
+    const db = request.result;
+    const tx = db.transaction(STORES.KV, 'readwrite');
+    Object.entries(entries).forEach(([key, value]) => tx.objectStore(STORES.KV).put(value, key));
+    tx.oncomplete = () => { db.close(); resolve(); };
+    tx.onerror = () => reject(tx.error);
+  };
+});
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+});
+
+describe('schema upgrades', () => {
+  it('v1 直接升级到最新版本时保留参考图与媒体', async () => {
+    await seedV1({
+      pf_projects_index: [{ id: 'p1', name: '短片', createdAt: 1 }],
+      pf_project_p1_script: '雨夜',
+      pf_project_p1_images: [IMAGE_A, IMAGE_B],
+      pf_project_p1_shots: [{ id: 's1', name: '开场', imageUrl: IMAGE_A }],
+      pf_project_p1_assets: [{ id: 'a1', name: '小明', type: 'character', isActive: true, images: [{ url: IMAGE_B, isActive: true }] }],
+      pf_theme: 'dark'
+    });
+
+    const db = new PromptFlowDB();
+    const [project] = await db.getAll<any>(STORES.PROJECTS);
+    const blobs = await db.getAllKeys(STORES.MEDIA);
+    const [shot] = await db.getAll<any>(STORES.SHOTS);
+    const [asset] = await db.getAll<any>(STORES.ASSETS);
+
+    expect(project.script).toBe('雨夜');
+    expect(project.imageIds).toHaveLength(2);
+    project.imageIds.forEach((id: string) => expect(id).toMatch(/^media:[0-9a-f]{64}$/));
+    expect(blobs.sort()).toEqual([...project.imageIds].sort());
+    expect(shot.imageUrl).toBe(project.imageIds[0]);
+    expect(asset.images[0].url).toBe(project.imageIds[1]);
+    expect(await db.getAllKeys(STORES.KV)).toEqual(['pf_theme']);
+  });
+
+  it('单工作区的 v30 数据迁为默认项目', async () => {
+    await seedV1({ pf_master_script_v30: '开门', pf_master_images_v30: [IMAGE_A] });
+
+    const db = new PromptFlowDB();
+    const [project] = await db.getAll<any>(STORES.PROJECTS);
+    expect(project.name).toBe('默认项目');
+    expect(project.script).toBe('开门');
+    expect(await db.getAllKeys(STORES.MEDIA)).toEqual(project.imageIds);
+  });
+});
@@ -1,27 +1,183 @@
+import { ProjectRecord } from './types';
+import { sha256Hex } from './sha256';
+import { parseDataUrl } from './encoding';
+
+export const STORES = {
+  KV: 'kv',
+  PROJECTS: 'projects',
+  SHOTS: 'shots',
+  ASSETS: 'assets',
+  MEDIA: 'blobs'
+} as const;
+
+// v2 时期按项目存放 base64 的旧媒体仓库，v3 起由内容寻址的 blobs 取代
+const LEGACY_MEDIA_STORE = 'media';
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+export interface WriteOps {
+  put?: Partial<Record<StoreName, any[]>>;
+  delete?: Partial<Record<StoreName, IDBValidKey[]>>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// 旧版 kv 中的项目数据键
+const V30_PREFIX = 'pf_master_';
+const V30_FIELDS = ['script', 'style', 'images', 'shots', 'assets', 'mode', 'voices'];
+const PROJECT_INDEX_KEY = 'pf_projects_index';
+const PROJECT_KEY_PATTERN = /^pf_project_(.+)_(script|style|images|shots|assets|mode|castVoices)$/;
+
+// 升级步骤在同一个 versionchange 事务里依次执行；带异步读写的步骤写完后才调用 done 进入下一步，
+// 否则下一步的读取会先于本步的写入执行（如 v1 直接升到 v3）
+type Upgrade = (db: IDBDatabase, tx: IDBTransaction, done: () => void) => void;
+
+// v1 → v2：把 kv 中整块存放的工作区拆分为逐条记录
+const migrateKvToRecords = (tx: IDBTransaction, done: () => void) => {
+  const kv = tx.objectStore(STORES.KV);
+  const keysReq = kv.getAllKeys();
+  const valuesReq = kv.getAll();
+  valuesReq.onsuccess = () => {
+    const entries = new Map<string, any>();
+    (keysReq.result as string[]).forEach((key, i) => entries.set(key, valuesReq.result[i]));
+
+    const projects: { id: string; name: string; createdAt: number; fields: Record<string, any> }[] = [];
+    const index: { id: string; name: string; createdAt: number }[] = entries.get(PROJECT_INDEX_KEY) || [];
+    index.forEach(meta => {
+      const fields: Record<string, any> = {};
+      entries.forEach((value, key) => {
+        const match = key.match(PROJECT_KEY_PATTERN);
+        if (match && match[1] === meta.id) fields[match[2]] = value;
+      });
+      projects.push({ ...meta, fields });
+    });
+
+    // 尚未经过多项目改造的单工作区：迁为"默认项目"
+    const hasV30 = V30_FIELDS.some(f => entries.get(`${V30_PREFIX}${f}_v30`) != null);
+    if (projects.length === 0 && hasV30) {
+      const fields: Record<string, any> = {};
+      V30_FIELDS.forEach(f => { fields[f === 'voices' ? 'castVoices' : f] = entries.get(`${V30_PREFIX}${f}_v30`); });
+      projects.push({ id: `project-${Date.now()}`, name: '默认项目', createdAt: Date.now(), fields });
+    }
+
+    projects.forEach(({ id, name, createdAt, fields }) => {
+      const shots: any[] = fields.shots || [];
+      const assets: any[] = fields.assets || [];
+      const images: string[] = fields.images || [];
+      const imageIds = images.map((data, i) => {
+        const mediaId = `media-${id}-${i}`;
+        tx.objectStore(LEGACY_MEDIA_STORE).put({ id: mediaId, projectId: id, data });
+        return mediaId;
+      });
+      shots.forEach(shot => tx.objectStore(STORES.SHOTS).put({ ...shot, projectId: id }));
+      assets.forEach(asset => tx.objectStore(STORES.ASSETS).put({ ...asset, projectId: id }));
+      tx.objectStore(STORES.PROJECTS).put({
+        id, name, createdAt,
+        script: fields.script || '',
+        style: fields.style || null,
+        mode: fields.mode || 'cinematic',
+        castVoices: fields.castVoices || {},
+        shotIds: shots.map(s => s.id),
+        assetIds: assets.map(a => a.id),
+        imageIds
+      });
+    });
+
+    entries.forEach((_, key) => {
+      const isV30Data = key.startsWith(V30_PREFIX) && V30_FIELDS.some(f => key === `${V30_PREFIX}${f}_v30`);
+      if (isV30Data || key === PROJECT_INDEX_KEY || PROJECT_KEY_PATTERN.test(key)) kv.delete(key);
+    });
+    done();
+  };
+};
+
+// v2 → v3：把所有 data URL 媒体转存为按内容哈希寻址的 Blob，记录中只保留引用
+const migrateInlineMedia = (db: IDBDatabase, tx: IDBTransaction, done: () => void) => {
+  const blobs = tx.objectStore(STORES.MEDIA);
+  const written = new Set<string>();
+  const toRef = (value?: string) => {
+    if (!value || !value.startsWith('data:')) return value;
+    const { mimeType, bytes } = parseDataUrl(value);
+    const id = `media:${sha256Hex(bytes)}`;
+    if (!written.has(id)) {
+      blobs.put({ id, blob: new Blob([bytes as BlobPart], { type: mimeType }), mimeType, size: bytes.length, createdAt: Date.now() });
+      written.add(id);
+    }
+    return id;
+  };
+
+  const mediaReq = tx.objectStore(LEGACY_MEDIA_STORE).getAll();
+  const projectsReq = tx.objectStore(STORES.PROJECTS).getAll();
+  const shotsReq = tx.objectStore(STORES.SHOTS).getAll();
+  const assetsReq = tx.objectStore(STORES.ASSETS).getAll();
+  assetsReq.onsuccess = () => {
+    const legacyRefs = new Map<string, string>();
+    mediaReq.result.forEach((m: any) => legacyRefs.set(m.id, toRef(m.data)!));
+    projectsReq.result.forEach((p: any) => {
+      tx.objectStore(STORES.PROJECTS).put({ ...p, imageIds: p.imageIds.map((id: string) => legacyRefs.get(id)).filter(Boolean) });
+    });
+    shotsReq.result.forEach((shot: any) => {
+      tx.objectStore(STORES.SHOTS).put({ ...shot, imageUrl: toRef(shot.imageUrl), videoUrl: toRef(shot.videoUrl) });
+    });
+    assetsReq.result.forEach((asset: any) => {
+      tx.objectStore(STORES.ASSETS).put({ ...asset, images: asset.images.map((img: any) => ({ ...img, url: toRef(img.url) })) });
+    });
+    db.deleteObjectStore(LEGACY_MEDIA_STORE);
+    done();
+  };
+};
+
+// 按版本顺序执行的 schema 升级步骤
+const UPGRADES: Record<number, Upgrade> = {
+  1: (db, _tx, done) => {
+    db.createObjectStore(STORES.KV);
+    done();
+  },
+  2: (db, tx, done) => {
+    db.createObjectStore(STORES.PROJECTS, { keyPath: 'id' });
+    db.createObjectStore(STORES.SHOTS, { keyPath: ['projectId', 'id'] }).createIndex('projectId', 'projectId');
+    db.createObjectStore(STORES.ASSETS, { keyPath: ['projectId', 'id'] }).createIndex('projectId', 'projectId');
+    db.createObjectStore(LEGACY_MEDIA_STORE, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+    migrateKvToRecords(tx, done);
+  },
+  3: (db, tx, done) => {
+    db.createObjectStore(STORES.MEDIA, { keyPath: 'id' });
+    migrateInlineMedia(db, tx, done);
+  }
+};
 
 export class PromptFlowDB {
   private dbName = 'PromptFlowDB';
-  private version = 1;
+  private version = 3;
+  private connection: Promise<IDBDatabase> | null = null;
 
   async open() {
-    return new Promise<IDBDatabase>((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, this.version);
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result);
-      request.onupgradeneeded = (event: any) => {
-        const db = event.target.result;
-        if (!db.objectStoreNames.contains('kv')) {
-          db.createObjectStore('kv');
-        }
-      };
-    });
+    if (!this.connection) {
+      this.connection = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, this.version);
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+        request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
+          const db = request.result;
+          const tx = request.transaction!;
+          const upgrade = (v: number) => {
+            if (v <= this.version) UPGRADES[v](db, tx, () => upgrade(v + 1));
+          };
+          upgrade(event.oldVersion + 1);
+        };
+      });
+    }
+    return this.connection;
   }
 
   async set(key: string, value: any) {
     const db = await this.open();
     return new Promise<void>((resolve, reject) => {
-      const transaction = db.transaction('kv', 'readwrite');
-      const store = transaction.objectStore('kv');
+      const transaction = db.transaction(STORES.KV, 'readwrite');
+      const store = transaction.objectStore(STORES.KV);
       const request = store.put(value, key);
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
@@ -31,18 +187,79 @@ export class PromptFlowDB {
   async get(key: string) {
     const db = await this.open();
     return new Promise<any>((resolve, reject) => {
-      const transaction = db.transaction('kv', 'readonly');
-      const store = transaction.objectStore('kv');
+      const transaction = db.transaction(STORES.KV, 'readonly');
+      const store = transaction.objectStore(STORES.KV);
       const request = store.get(key);
       request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
   }
 
+  async delete(key: string) {
+    return this.write({ delete: { [STORES.KV]: [key] } });
+  }
+
+  async getRecord<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    const db = await this.open();
+    return requestToPromise<T>(db.transaction(store, 'readonly').objectStore(store).get(key));
+  }
+
+  async getAll<T>(store: StoreName): Promise<T[]> {
+    const db = await this.open();
+    return requestToPromise<T[]>(db.transaction(store, 'readonly').objectStore(store).getAll());
+  }
+
+  async getAllKeys(store: StoreName): Promise<IDBValidKey[]> {
+    const db = await this.open();
+    return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAllKeys());
+  }
+
+  async getAllByProject<T>(store: StoreName, projectId: string): Promise<T[]> {
+    const db = await this.open();
+    return requestToPromise<T[]>(db.transaction(store, 'readonly').objectStore(store).index('projectId').getAll(projectId));
+  }
+
+  async getAllKeysByProject(store: StoreName, projectId: string): Promise<IDBValidKey[]> {
+    const db = await this.open();
+    return requestToPromise(db.transaction(store, 'readonly').objectStore(store).index('projectId').getAllKeys(projectId));
+  }
+
+  // 跨仓库的单事务批量写入
+  async write(ops: WriteOps) {
+    const stores = Array.from(new Set([...Object.keys(ops.put || {}), ...Object.keys(ops.delete || {})])) as StoreName[];
+    if (stores.length === 0) return;
+    const db = await this.open();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(stores, 'readwrite');
+      Object.entries(ops.delete || {}).forEach(([store, keys]) => keys!.forEach(key => transaction.objectStore(store).delete(key)));
+      Object.entries(ops.put || {}).forEach(([store, records]) => records!.forEach(record => {
+        if (store === STORES.KV) transaction.objectStore(store).put(record.value, record.key);
+        else transaction.objectStore(store).put(record);
+      }));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // 读改写同一条项目记录，避免覆盖并发修改的其他字段
+  async updateProject(id: string, patch: Partial<ProjectRecord>) {
+    const db = await this.open();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORES.PROJECTS, 'readwrite');
+      const store = transaction.objectStore(STORES.PROJECTS);
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (request.result) store.put({ ...request.result, ...patch });
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   async clear() {
     const db = await this.open();
-    const transaction = db.transaction('kv', 'readwrite');
-    transaction.objectStore('kv').clear();
+    const transaction = db.transaction(Object.values(STORES), 'readwrite');
+    Object.values(STORES).forEach(store => transaction.objectStore(store).clear());
   }
 }
 
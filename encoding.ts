@@ -0,0 +1,22 @@
+export const base64ToBytes = (b64: string): Uint8Array => {
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const parseDataUrl = (dataUrl: string): { mimeType: string; bytes: Uint8Array } => {
+  const match = dataUrl.match(/^data:(.*?);base64,(.*)$/);
+  if (!match) throw new Error("Not a base64 data URL");
+  return { mimeType: match[1], bytes: base64ToBytes(match[2]) };
+};
+
+export const toDataUrl = (bytes: Uint8Array, mimeType: string): string => `data:${mimeType};base64,${bytesToBase64(bytes)}`;
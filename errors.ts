@@ -0,0 +1,45 @@
+import { ErrorCategory, StudioError } from './types';
+import { OutputParseError, SchemaValidationError } from './validation';
+
+// 模型出于安全策略拒绝输出：prompt 被拦截，或候选结果被过滤
+export class SafetyBlockError extends Error {
+  constructor(public reason: string, detail?: string) {
+    super(detail ? `${reason}: ${detail}` : reason);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export const ERROR_META: Record<ErrorCategory, { icon: string; label: string; hint: string }> = {
+  quota: { icon: '⏳', label: '配额不足', hint: '请求过于频繁或额度已用尽，稍后重试或在后端设置中切换模型。' },
+  safety: { icon: '🛡️', label: '安全拦截', hint: '内容触发了模型的安全策略，调整描述或参考图后重试。' },
+  network: { icon: '📡', label: '网络异常', hint: '连接中断或服务暂时不可用，检查网络后重试。' },
+  bad_output: { icon: '🧩', label: '输出无效', hint: '模型返回的结果无法使用，重试通常即可恢复。' },
+  unknown: { icon: '❌', label: '未知错误', hint: '查看控制台获取详细信息。' }
+};
+
+export const categorizeError = (error: any): ErrorCategory => {
+  if (error instanceof SafetyBlockError) return 'safety';
+  if (error instanceof OutputParseError || error instanceof SchemaValidationError) return 'bad_output';
+  const status = typeof error?.status === 'number' ? error.status : 0;
+  const msg = String(error?.message || error || '').toLowerCase();
+  if (status === 429 || /\b429\b|quota|resource_exhausted|rate limit/.test(msg)) return 'quota';
+  if (/safety|blocked|prohibited|blocklist/.test(msg)) return 'safety';
+  if (status === 408 || status >= 500 || error instanceof TypeError || /failed to fetch|network|timed? ?out|unavailable|overloaded|\b50[0234]\b/.test(msg)) return 'network';
+  return 'unknown';
+};
+
+// SDK 的 ApiError 把服务端返回的 JSON 整段放进 message，只取其中的 message 字段
+const summarizeMessage = (error: any): string => {
+  const msg = String(error?.message || error || '');
+  const inner = msg.match(/"message"\s*:\s*"((?:[^"\\]|\\.)*)"/)?.[1];
+  const text = (inner || msg).replace(/\\n/g, ' ').trim();
+  return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+};
+
+export const toStudioError = (error: any): StudioError => ({
+  category: categorizeError(error),
+  message: summarizeMessage(error),
+  at: Date.now()
+});
+
+export const formatError = (error: StudioError): string => `${ERROR_META[error.category].icon} ${ERROR_META[error.category].label}: ${error.message}`;
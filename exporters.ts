@@ -0,0 +1,119 @@
+import { Shot, StyleDistillation, ProductionMode } from './types';
+import { getShotDuration, formatTimecode } from './shotUtils';
+
+export type PanelsPerPage = 1 | 2 | 4 | 6;
+
+export interface ShootingScriptOptions {
+  title: string;
+  panelsPerPage: PanelsPerPage;
+  mode: ProductionMode;
+}
+
+// 每页版式：列数 x 行数
+const PAGE_GRID: Record<PanelsPerPage, [number, number]> = {
+  1: [1, 1],
+  2: [1, 2],
+  4: [2, 2],
+  6: [2, 3]
+};
+
+const escapeHtml = (text: string = ''): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderPanel = (shot: Shot, index: number): string => `
+  <article class="panel">
+    <div class="frame">${shot.imageUrl ? `<img src="${shot.imageUrl}" />` : '<span>未渲染</span>'}</div>
+    <header><b>#${index + 1}</b> ${escapeHtml(shot.name)}<em>${getShotDuration(shot)}s</em></header>
+    <dl>
+      <dt>构图</dt><dd>${escapeHtml(shot.composition)}</dd>
+      <dt>调度</dt><dd>${escapeHtml(shot.flowLogic)}</dd>
+      <dt>画面</dt><dd>${escapeHtml(shot.chineseDescription)}</dd>
+      ${shot.dialogue ? `<dt>台词</dt><dd><b>${escapeHtml(shot.speaker)}</b>（${escapeHtml(shot.emotion)}）：${escapeHtml(shot.dialogue)}</dd>` : ''}
+      ${shot.ambientSfx ? `<dt>音效</dt><dd>${escapeHtml(shot.ambientSfx)}</dd>` : ''}
+    </dl>
+  </article>`;
+
+const renderCover = (shots: Shot[], style: StyleDistillation | null, options: ShootingScriptOptions): string => {
+  const runtime = shots.reduce((sum, s) => sum + getShotDuration(s), 0);
+  return `
+  <section class="page cover">
+    <h1>${escapeHtml(options.title)}</h1>
+    <p class="meta">分镜脚本 · ${options.mode === 'anime' ? '动漫' : '实拍'} · ${shots.length} 镜 · ${formatTimecode(runtime)} · ${new Date().toLocaleDateString()}</p>
+    ${style ? `
+    <div class="swatches">${style.hexCodes.map(hex => `<div><i style="background:${escapeHtml(hex)}"></i><span>${escapeHtml(hex)}</span></div>`).join('')}</div>
+    <dl>
+      <dt>视觉 DNA</dt><dd>${escapeHtml(style.summary)}</dd>
+      <dt>配色</dt><dd>${escapeHtml(style.colorPalette)}</dd>
+      <dt>技术参数</dt><dd>${escapeHtml(style.technicalParams)}</dd>
+      <dt>关键词</dt><dd>${escapeHtml(style.keywords)}</dd>
+    </dl>` : ''}
+  </section>`;
+};
+
+// 生成自包含的拍摄脚本 HTML（图片以内联数据嵌入，可直接打印为 PDF）
+export const buildShootingScriptHtml = (shots: Shot[], style: StyleDistillation | null, options: ShootingScriptOptions): string => {
+  const [cols, rows] = PAGE_GRID[options.panelsPerPage];
+  const pages: Shot[][] = [];
+  for (let i = 0; i < shots.length; i += options.panelsPerPage) pages.push(shots.slice(i, i + options.panelsPerPage));
+
+  return `<!DOCTYPE html>
+<html lang="zh">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(options.title)}</title>
+<style>
+  @page { size: A4 landscape; margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: 'Inter', 'PingFang SC', 'Microsoft YaHei', sans-serif; color: #111; background: #eee; }
+  .page { width: 273mm; height: 186mm; margin: 10mm auto; padding: 8mm; background: #fff; page-break-after: always; break-after: page; overflow: hidden; }
+  .page:last-child { page-break-after: auto; break-after: auto; }
+  .cover h1 { font-size: 32pt; font-style: italic; margin: 20mm 0 4mm; }
+  .cover .meta { color: #666; font-size: 10pt; letter-spacing: .1em; }
+  .swatches { display: flex; gap: 6mm; margin: 10mm 0; }
+  .swatches div { text-align: center; font: 8pt monospace; }
+  .swatches i { display: block; width: 22mm; height: 22mm; border-radius: 4mm; margin-bottom: 2mm; border: 1px solid #ddd; }
+  .grid { display: grid; grid-template-columns: repeat(${cols}, 1fr); grid-template-rows: repeat(${rows}, 1fr); gap: 5mm; height: 100%; }
+  .panel { display: flex; flex-direction: ${cols === 1 && rows === 1 ? 'row' : 'column'}; gap: 3mm; border: 1px solid #ddd; border-radius: 3mm; padding: 3mm; overflow: hidden; font-size: ${options.panelsPerPage >= 4 ? 7 : 9}pt; }
+  .frame { flex: 0 0 auto; ${cols === 1 && rows === 1 ? 'width: 60%;' : `height: ${options.panelsPerPage >= 4 ? 45 : 55}%;`} background: #111; border-radius: 2mm; display: flex; align-items: center; justify-content: center; color: #666; overflow: hidden; }
+  .frame img { width: 100%; height: 100%; object-fit: contain; }
+  .panel header { font-weight: 700; }
+  .panel header em { float: right; font-style: normal; color: #888; font-family: monospace; }
+  dl { margin: 0; display: grid; grid-template-columns: auto 1fr; gap: 1mm 3mm; line-height: 1.4; }
+  dt { color: #888; font-weight: 700; }
+  dd { margin: 0; }
+  @media print { body { background: #fff; } .page { margin: 0; width: auto; height: 100vh; } }
+</style>
+</head>
+<body>
+${renderCover(shots, style, options)}
+${pages.map((page, p) => `
+  <section class="page"><div class="grid">${page.map((shot, i) => renderPanel(shot, p * options.panelsPerPage + i)).join('')}</div></section>`).join('')}
+</body>
+</html>`;
+};
+
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// 借助浏览器打印管线输出 PDF（打印对话框中选择"另存为 PDF"）
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position:fixed;width:0;height:0;border:0;';
+  document.body.appendChild(frame);
+  const doc = frame.contentDocument!;
+  doc.open();
+  doc.write(html);
+  doc.close();
+  const images = Array.from(doc.images);
+  Promise.all(images.map(img => img.complete ? Promise.resolve() : new Promise(r => { img.onload = img.onerror = r; }))).then(() => {
+    frame.contentWindow!.focus();
+    frame.contentWindow!.print();
+    setTimeout(() => frame.remove(), 1000);
+  });
+};
@@ -0,0 +1,264 @@
+import { GoogleGenAI, Type, GenerateContentResponse, Part } from "@google/genai";
+import { Asset, ProductionMode } from "./types";
+import { GenerationProvider, ShotBrief, DeductContinuity, RepairRequest } from "./providers";
+import { getMediaDataUrl, putDataUrl } from "./mediaStore";
+import { SafetyBlockError } from "./errors";
+import { OutputParseError } from "./validation";
+import { REFERENCE_TAG_META } from "./references";
+
+export const getGeminiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const GET_DIRECTOR_PERSONA = (mode: ProductionMode) => `你是一名全球顶尖电影导演${mode === 'anime' ? '（动漫领域）' : '（真人实拍与科幻视觉）'}。
+你现在拥有极致的镜头感：
+1. 视觉构图：严苛把控构图美学。分镜必须包含：黄金分割、对角线构图、大远景、特写、电影级别布光。
+2. 动态捕捉：描述体现动作张力、质感、光影明暗。
+3. 媒介控制：${mode === 'anime' ? '强调线条与赛璐珞质感' : '强调极致写实、皮肤纹理、电影胶片感与真实物理光影'}。
+4. 语言系统：输出极致美感的中文分镜，并将细节转化为高质量英文 Prompt。`;
+
+const STYLE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    keywords: { type: Type.STRING },
+    technicalParams: { type: Type.STRING },
+    colorPalette: { type: Type.STRING },
+    hexCodes: { type: Type.ARRAY, items: { type: Type.STRING } },
+    detectedMedium: { type: Type.STRING, enum: ['illustration', 'photorealistic', 'unknown'] }
+  },
+  required: ["summary", "keywords", "technicalParams", "colorPalette", "hexCodes", "detectedMedium"]
+};
+
+const STORYBOARD_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING },
+      composition: { type: Type.STRING },
+      flowLogic: { type: Type.STRING },
+      chineseDescription: { type: Type.STRING },
+      englishPrompt: { type: Type.STRING },
+      dialogue: { type: Type.STRING },
+      speaker: { type: Type.STRING },
+      gender: { type: Type.STRING, enum: ['male', 'female', 'child', 'narrator'] },
+      emotion: { type: Type.STRING },
+      ambientSfx: { type: Type.STRING },
+      characters: { type: Type.ARRAY, items: { type: Type.STRING } },
+      scene: { type: Type.STRING }
+    },
+    required: ["name", "composition", "flowLogic", "chineseDescription", "englishPrompt", "dialogue", "speaker", "gender", "emotion", "ambientSfx", "characters", "scene"]
+  }
+};
+
+const REGIONS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    regions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ['text', 'logo', 'ui', 'watermark'] },
+          label: { type: Type.STRING },
+          box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+        },
+        required: ["kind", "label", "box_2d"]
+      }
+    }
+  },
+  required: ["regions"]
+};
+
+const REPAIR_SCHEMAS: Record<RepairRequest['kind'], object> = {
+  style: STYLE_SCHEMA,
+  storyboard: STORYBOARD_SCHEMA,
+  regions: REGIONS_SCHEMA
+};
+
+const describeBrief = (shot: ShotBrief) =>
+  `「${shot.name}」${shot.composition} / 运镜: ${shot.flowLogic}${shot.dialogue ? ` / ${shot.speaker || '旁白'}: "${shot.dialogue}"` : ''} — ${shot.chineseDescription}`;
+
+const describeSequence = (shots: ShotBrief[]) => shots.map((shot, i) => `${i + 1}. ${describeBrief(shot)}`).join('\n');
+
+const CONTINUITY_TASK = (continuity: DeductContinuity, count: number) => {
+  switch (continuity.mode) {
+    case 'continue':
+      return `已有分镜（按时间顺序）:\n${describeSequence(continuity.previous)}\n要求：紧接最后一镜继续推演 ${count} 个分镜。延续角色、场景、说话人与运镜节奏，时间线连贯，不要重复已发生的内容。`;
+    case 'insert':
+      return `前序分镜:\n${describeSequence(continuity.previous)}\n后一镜: ${describeBrief(continuity.next)}\n要求：在最后一个前序分镜与后一镜之间插入 ${count} 个过渡分镜，动作、视线与运镜方向首尾衔接，结束时自然落到后一镜。`;
+    case 'expand':
+      return `原分镜: ${describeBrief(continuity.target)}\n要求：把这一镜拆成 ${count} 个覆盖机位（如全景、过肩、反打、特写、插入镜头），表现同一时刻的同一段动作；台词按机位拆分，或只保留在拍摄说话人的那一镜。`;
+  }
+};
+
+// 媒体引用或 data URL → 模型所需的 inlineData
+export const toInlineData = async (src: string) => {
+  const dataUrl = await getMediaDataUrl(src);
+  return { mimeType: dataUrl.match(/^data:(.*?);/)?.[1] || 'image/jpeg', data: dataUrl.split(',')[1] || dataUrl };
+};
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'IMAGE_RECITATION'];
+
+// 安全拦截时 candidates 为空或没有 content，取结果前必须先检查
+export const getResponseParts = (response: GenerateContentResponse): Part[] => {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) throw new SafetyBlockError(feedback.blockReason, feedback.blockReasonMessage);
+  const candidate = response.candidates?.[0];
+  if (!candidate) throw new OutputParseError('模型没有返回任何结果', '');
+  if (candidate.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) throw new SafetyBlockError(candidate.finishReason, candidate.finishMessage);
+  const parts = candidate.content?.parts || [];
+  if (parts.length === 0) throw new OutputParseError(candidate.finishReason === 'MAX_TOKENS' ? '输出被截断' : '模型返回了空结果', '');
+  return parts;
+};
+
+export const getResponseText = (response: GenerateContentResponse): string =>
+  getResponseParts(response).filter(part => part.text && !part.thought).map(part => part.text).join('');
+
+const storeImagePart = (response: GenerateContentResponse): Promise<string> => {
+  const parts = getResponseParts(response);
+  const image = parts.find(part => part.inlineData?.data);
+  if (image) return putDataUrl(`data:${image.inlineData.mimeType || 'image/png'};base64,${image.inlineData.data}`);
+  // 模型只回了文字（通常是拒绝理由）
+  const text = parts.map(part => part.text || '').join(' ').trim();
+  throw new OutputParseError(text ? `未返回图像: ${text}` : '未返回图像', text);
+};
+
+export const geminiProvider: GenerationProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  textModels: ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'],
+  imageModels: ['gemini-2.5-flash-image', 'gemini-3-pro-image-preview'],
+
+  async distillStyle({ images, tags = [], model }, signal) {
+    const ai = getGeminiClient();
+    // 带标记的参考图紧跟一句说明，让模型只从这张图提取对应维度
+    const parts = (await Promise.all(images.map(async (src, i): Promise<Part[]> => [
+      { inlineData: await toInlineData(src) },
+      ...(tags[i]?.length ? [{ text: `参考图 ${i + 1}：仅参考其${tags[i].map(t => REFERENCE_TAG_META[t].label).join('、')}。` }] : [])
+    ]))).flat();
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: {
+        parts: [ ...parts, { text: "作为美术监督，请解构这些图。判断其媒介类型（photorealistic或illustration）。输出包含：媒介类型、风格总结、核心配色方案(3-5个HEX代码)、光效质感。" } ]
+      },
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: STYLE_SCHEMA
+      }
+    });
+    return getResponseText(response);
+  },
+
+  async deductStoryboard({ script, style, count, mode, characters, scenes, continuity, model }, signal) {
+    const ai = getGeminiClient();
+    const assetBrief = characters.length + scenes.length > 0
+      ? `\n项目角色: ${characters.map(a => `"${a.name}"`).join('、') || '无'}\n项目场景: ${scenes.map(a => `"${a.name}"`).join('、') || '无'}\n对每个分镜，在 characters 中列出入画的角色名、在 scene 中给出所处场景名，必须严格使用上述名称，没有则留空。`
+      : '';
+    const task = continuity ? CONTINUITY_TASK(continuity, count) : `要求：推演 ${count} 个具备电影张力的分镜。`;
+    const prompt = `剧本: "${script}"\n当前视觉DNA: "${style.summary}"\n制作模式: ${mode}${assetBrief}\n${task}`;
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        abortSignal: signal,
+        systemInstruction: GET_DIRECTOR_PERSONA(mode),
+        responseMimeType: "application/json",
+        responseSchema: STORYBOARD_SCHEMA
+      }
+    });
+    return getResponseText(response);
+  },
+
+  // 把上一次的输出与校验问题一并交回模型，按同一 schema 重新输出
+  async repairOutput({ kind, raw, problems, model }, signal) {
+    const ai = getGeminiClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: `以下是你上一次输出的 JSON，未通过校验。\n问题: ${problems}\n\n原输出:\n${raw}\n\n请修正这些问题后重新输出完整 JSON，保留原有内容与顺序，不要省略任何条目。`,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: REPAIR_SCHEMAS[kind]
+      }
+    });
+    return getResponseText(response);
+  },
+
+  async renderShot({ prompt, style, aspectRatio, characters, scenes, mode, model }, signal) {
+    const ai = getGeminiClient();
+    const parts: any[] = [];
+
+    const getActiveImg = (asset: Asset) => asset.images.find(img => img.isActive)?.url;
+
+    for (const asset of characters) {
+      const url = getActiveImg(asset);
+      if (url) {
+        parts.push({ inlineData: await toInlineData(url) });
+        parts.push({ text: `REFERENCE CHARACTER: "${asset.name}"` });
+      }
+    }
+
+    for (const asset of scenes) {
+      const url = getActiveImg(asset);
+      if (url) {
+        parts.push({ inlineData: await toInlineData(url) });
+        parts.push({ text: `REFERENCE SCENE: "${asset.name}"` });
+      }
+    }
+
+    const mediumPrefix = mode === 'anime' ? "Masterpiece Anime Art, high quality illustration" : "Award-winning Cinematic Photography, photorealistic, 8k, highly detailed skin texture, film grain";
+    const finalPromptText = `${mediumPrefix}, (Style: ${style.technicalParams}), (Colors: ${style.hexCodes.join(', ')}), ${prompt}, cinematic lighting, dramatic atmosphere --no text, logo, watermark, anime, cartoon (if cinematic)`;
+
+    parts.push({ text: finalPromptText });
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts },
+      config: { abortSignal: signal, imageConfig: { aspectRatio: aspectRatio as any } },
+    });
+    return storeImagePart(response);
+  },
+
+  async removeWatermark({ image, mask, instruction, model }, signal) {
+    const ai = getGeminiClient();
+    const parts: any[] = [
+      { inlineData: await toInlineData(image) }
+    ];
+    if (mask) {
+      parts.push({ inlineData: await toInlineData(mask) });
+      parts.push({ text: "URGENT: Based on this white-on-black mask, completely remove and inpaint the marked area to seamlessly match the surrounding textures, lighting, and details. Ensure no traces of text or logos remain." });
+    } else {
+      parts.push({ text: "Purify this image: remove all visible text, watermarks, and UI elements. Reconstruct the underlying pixels naturally." });
+    }
+    if (instruction) parts.push({ text: instruction });
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts },
+      config: { abortSignal: signal }
+    });
+    return storeImagePart(response);
+  },
+
+  async detectOverlays({ image, model }, signal) {
+    const ai = getGeminiClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: {
+        parts: [
+          { inlineData: await toInlineData(image) },
+          { text: "Detect every overlay that was added on top of this image and is not part of the scene itself: captions, subtitles, watermarks, channel or brand logos, and UI elements such as status bars, buttons, player controls or comment overlays. For each one give kind (text / logo / ui / watermark), label (the visible text, or a short description) and box_2d as [ymin, xmin, ymax, xmax] normalized to 0-1000. Box each element tightly; return an empty list if there are none." }
+        ]
+      },
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: REGIONS_SCHEMA
+      }
+    });
+    return getResponseText(response);
+  }
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { distillStyle, deductStoryboard } from './geminiService';
+import { getActiveProvider } from './providers';
+import { mockProvider } from './mockProvider';
+import { SchemaValidationError, OutputParseError } from './validation';
+import { Asset } from './types';
+
+const STYLE = { summary: '冷调', keywords: 'k', technicalParams: 't', colorPalette: 'c', hexCodes: ['#112233'], detectedMedium: 'photorealistic' as const };
+
+const asset = (id: string, name: string, type: Asset['type']): Asset => ({ id, name, type, images: [], isActive: true });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('PROVIDER=mock', () => {
+  it('强制使用离线后端', () => {
+    expect(getActiveProvider().id).toBe('mock');
+  });
+});
+
+describe('distillStyle', () => {
+  it('同样的参考图得到同样的风格', async () => {
+    const first = await distillStyle(['media:a', 'media:b']);
+    expect(first.summary).toContain('2 张参考图');
+    expect(first.hexCodes).toHaveLength(4);
+    expect(await distillStyle(['media:a', 'media:b'])).toEqual(first);
+  });
+
+  it('输出无效时修复一次', async () => {
+    vi.spyOn(mockProvider, 'distillStyle').mockResolvedValueOnce('{"summary": "冷调"');
+    const repair = vi.spyOn(mockProvider, 'repairOutput').mockResolvedValueOnce(JSON.stringify(STYLE));
+    const notices: string[] = [];
+    expect(await distillStyle(['media:a'], [], msg => notices.push(msg))).toEqual(STYLE);
+    expect(repair).toHaveBeenCalledWith(expect.objectContaining({ kind: 'style', raw: '{"summary": "冷调"' }), undefined);
+    expect(notices).toEqual([expect.stringContaining('疑似被截断'), '🩹 风格结果已修复。']);
+  });
+
+  it('修复后仍无效则抛出带明细的错误', async () => {
+    vi.spyOn(mockProvider, 'distillStyle').mockResolvedValueOnce(JSON.stringify({ ...STYLE, hexCodes: ['nope'] }));
+    await expect(distillStyle(['media:a'])).rejects.toBeInstanceOf(SchemaValidationError);
+  });
+});
+
+describe('deductStoryboard', () => {
+  it('按数量推演并把角色 / 场景匹配回资产', async () => {
+    const assets = [asset('c1', '小明', 'character'), asset('s1', '街道', 'scene')];
+    const shots = await deductStoryboard('小明走在街道上。雨越下越大。', STYLE, 3, 'cinematic', assets);
+    expect(shots).toHaveLength(3);
+    expect(new Set(shots.map(s => s.id)).size).toBe(3);
+    shots.forEach(shot => expect(shot.englishPrompt).toBeTruthy());
+    expect(shots[0].assetIds).toEqual(['c1', 's1']);
+  });
+
+  it('不合格的分镜修复一次，仍不合格的丢弃', async () => {
+    const raw = await mockProvider.deductStoryboard({ script: '开门。关门。', style: STYLE, count: 2, mode: 'anime', characters: [], scenes: [], model: 'mock-text' });
+    const broken = JSON.parse(raw);
+    const list = Array.isArray(broken) ? broken : broken.shots;
+    list[1].englishPrompt = '';
+    vi.spyOn(mockProvider, 'deductStoryboard').mockResolvedValueOnce(JSON.stringify(broken));
+    const repair = vi.spyOn(mockProvider, 'repairOutput');
+    const notices: string[] = [];
+    const shots = await deductStoryboard('开门。关门。', STYLE, 2, 'anime', [], undefined, msg => notices.push(msg));
+    expect(repair).toHaveBeenCalledOnce();
+    expect(shots).toHaveLength(1);
+    expect(notices[notices.length - 1]).toContain('已丢弃 1 个无效分镜');
+  });
+
+  it('整体无法解析时修复失败则报错', async () => {
+    vi.spyOn(mockProvider, 'deductStoryboard').mockResolvedValueOnce('not json');
+    await expect(deductStoryboard('开门。', STYLE, 1)).rejects.toBeInstanceOf(OutputParseError);
+  });
+});
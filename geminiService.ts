@@ -1,98 +1,109 @@
+import { Type, Modality } from "@google/genai";
+import { Shot, StyleDistillation, Asset, ProductionMode, MaskRegion, ReferenceTag } from "./types";
+import { synthesizeAmbience, AmbienceRecipe } from "./audio";
+import { putMediaBlob } from "./mediaStore";
+import { matchAssetIds } from "./shotUtils";
+import { withBackoff, sleep, isCancelled } from "./jobQueue";
+import { getActiveProvider, getProviderSettings, RepairRequest, DeductedShot, DeductContinuity } from "./providers";
+import { parseJson, validateStyle, validateStoryboard, validateRegions, formatIssues, OutputParseError, SchemaValidationError, ValidationIssue } from "./validation";
+import { getGeminiClient, toInlineData, getResponseParts, getResponseText } from "./geminiProvider";
+import { SafetyBlockError } from "./errors";
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { Shot, StyleDistillation, Asset, ProductionMode } from "./types";
+// 分镜推演 / 风格提取 / 出图 / 净化 / 叠加层识别走可切换的生成后端（见 providers.ts）；配音与视频目前仅 Gemini 支持
 
-const GET_DIRECTOR_PERSONA = (mode: ProductionMode) => `你是一名全球顶尖电影导演${mode === 'anime' ? '（动漫领域）' : '（真人实拍与科幻视觉）'}。
-你现在拥有极致的镜头感：
-1. 视觉构图：严苛把控构图美学。分镜必须包含：黄金分割、对角线构图、大远景、特写、电影级别布光。
-2. 动态捕捉：描述体现动作张力、质感、光影明暗。
-3. 媒介控制：${mode === 'anime' ? '强调线条与赛璐珞质感' : '强调极致写实、皮肤纹理、电影胶片感与真实物理光影'}。
-4. 语言系统：输出极致美感的中文分镜，并将细节转化为高质量英文 Prompt。`;
+type Notify = (msg: string) => void;
 
-async function withRetry<T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> {
-  let lastError: any;
-  for (let i = 0; i < maxRetries; i++) {
+const isOutputError = (error: any): error is OutputParseError | SchemaValidationError =>
+  error instanceof OutputParseError || error instanceof SchemaValidationError;
+
+const describeOutputError = (error: OutputParseError | SchemaValidationError) =>
+  error instanceof SchemaValidationError ? formatIssues(error.issues) : error.message;
+
+const repairOutput = (kind: RepairRequest['kind'], raw: string, problems: string, signal?: AbortSignal) =>
+  getActiveProvider().repairOutput({ kind, raw, problems, model: getProviderSettings().textModel }, signal);
+
+const readStyle = (text: string): StyleDistillation => {
+  const { style, issues } = validateStyle(parseJson(text));
+  if (!style) throw new SchemaValidationError('风格结果不符合约定', issues, text);
+  return style;
+};
+
+// 输出不合格时交回模型修复一次；仍不合格则抛出带问题明细的错误
+export const distillStyle = async (imageB64s: string[], tags?: ReferenceTag[][], onNotice?: Notify, signal?: AbortSignal): Promise<StyleDistillation> => {
+  const raw = await getActiveProvider().distillStyle({ images: imageB64s, tags, model: getProviderSettings().textModel }, signal);
+  try {
+    return readStyle(raw);
+  } catch (error) {
+    if (!isOutputError(error)) throw error;
+    onNotice?.(`🩹 风格结果无效（${describeOutputError(error)}），自动修复中...`);
+    const style = readStyle(await repairOutput('style', raw, describeOutputError(error), signal));
+    onNotice?.('🩹 风格结果已修复。');
+    return style;
+  }
+};
+
+const readStoryboard = (text: string) => validateStoryboard(parseJson(text), text);
+
+const describeShotIssues = (indices: number[], issues: ValidationIssue[][]) =>
+  indices.map(i => `第 ${i + 1} 镜: ${formatIssues(issues[i])}`).join('；');
+
+// 逐镜校验：不合格的分镜整体修复一次，修复后仍不合格的才丢弃
+const validateDeduction = async (raw: string, onNotice?: Notify, signal?: AbortSignal): Promise<DeductedShot[]> => {
+  let result;
+  let repaired = false;
+  try {
+    result = readStoryboard(raw);
+  } catch (error) {
+    if (!isOutputError(error)) throw error;
+    onNotice?.(`🩹 分镜结果无效（${describeOutputError(error)}），自动修复中...`);
+    result = readStoryboard(await repairOutput('storyboard', raw, describeOutputError(error), signal));
+    repaired = true;
+  }
+
+  let { shots, issues } = result;
+  const failing = shots.map((shot, i) => shot ? -1 : i).filter(i => i >= 0);
+  if (failing.length > 0 && !repaired) {
+    onNotice?.(`🩹 ${describeShotIssues(failing, issues)}，自动修复中...`);
     try {
-      return await fn();
-    } catch (error: any) {
-      lastError = error;
-      const errorMsg = (error.toString() || "").toLowerCase();
-      if ((errorMsg.includes("429") || errorMsg.includes("quota")) && i < maxRetries - 1) {
-        await new Promise(resolve => setTimeout(resolve, 5000 * (i + 1)));
-        continue;
-      }
-      throw error;
+      const second = readStoryboard(await repairOutput('storyboard', raw, describeShotIssues(failing, issues), signal));
+      issues = issues.map((list, i) => !shots[i] && !second.shots[i] && second.issues[i]?.length ? second.issues[i] : list);
+      shots = shots.map((shot, i) => shot || second.shots[i]);
+    } catch (error) {
+      if (isCancelled(error)) throw error;
+      onNotice?.(`⚠️ 修复失败: ${isOutputError(error) ? describeOutputError(error) : error.message}`);
     }
   }
-  throw lastError;
-}
-
-export const distillStyle = async (imageB64s: string[]): Promise<StyleDistillation> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const parts = imageB64s.map(data => ({
-    inlineData: { mimeType: "image/jpeg", data: data.split(',')[1] || data }
-  }));
 
-  return await withRetry(async () => {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        parts: [ ...parts, { text: "作为美术监督，请解构这些图。判断其媒介类型（photorealistic或illustration）。输出包含：媒介类型、风格总结、核心配色方案(3-5个HEX代码)、光效质感。" } ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            summary: { type: Type.STRING },
-            keywords: { type: Type.STRING },
-            technicalParams: { type: Type.STRING },
-            colorPalette: { type: Type.STRING },
-            hexCodes: { type: Type.ARRAY, items: { type: Type.STRING } },
-            detectedMedium: { type: Type.STRING, enum: ['illustration', 'photorealistic', 'unknown'] }
-          },
-          required: ["summary", "keywords", "technicalParams", "colorPalette", "hexCodes", "detectedMedium"]
-        }
-      }
-    });
-    return JSON.parse(response.text) as StyleDistillation;
-  });
+  const dropped = shots.map((shot, i) => shot ? -1 : i).filter(i => i >= 0);
+  const valid = shots.filter((shot): shot is DeductedShot => !!shot);
+  if (valid.length === 0) throw new SchemaValidationError('没有通过校验的分镜', issues.flat(), raw);
+  if (dropped.length > 0) onNotice?.(`🗑️ 已丢弃 ${dropped.length} 个无效分镜 — ${describeShotIssues(dropped, issues)}`);
+  else if (failing.length > 0 || repaired) onNotice?.('🩹 分镜结果已修复。');
+  return valid;
 };
 
-export const deductStoryboard = async (script: string, style: StyleDistillation, count: number = 4, mode: ProductionMode = 'anime'): Promise<Shot[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const prompt = `剧本: "${script}"\n当前视觉DNA: "${style.summary}"\n制作模式: ${mode}\n要求：推演 ${count} 个具备电影张力的分镜。`;
-
-  return await withRetry(async () => {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        systemInstruction: GET_DIRECTOR_PERSONA(mode),
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              name: { type: Type.STRING },
-              composition: { type: Type.STRING },
-              flowLogic: { type: Type.STRING },
-              chineseDescription: { type: Type.STRING },
-              englishPrompt: { type: Type.STRING },
-              dialogue: { type: Type.STRING },
-              speaker: { type: Type.STRING },
-              gender: { type: Type.STRING, enum: ['male', 'female', 'child', 'narrator'] },
-              emotion: { type: Type.STRING },
-              ambientSfx: { type: Type.STRING }
-            },
-            required: ["name", "composition", "flowLogic", "chineseDescription", "englishPrompt", "dialogue", "speaker", "gender", "emotion", "ambientSfx"]
-          }
-        }
-      }
-    });
-    return JSON.parse(response.text).map((item: any, index: number) => ({ ...item, id: `shot-${Date.now()}-${index}` }));
-  });
+export const deductStoryboard = async (
+  script: string,
+  style: StyleDistillation,
+  count: number = 4,
+  mode: ProductionMode = 'anime',
+  assets: Asset[] = [],
+  continuity?: DeductContinuity,
+  onNotice?: Notify,
+  signal?: AbortSignal
+): Promise<Shot[]> => {
+  const characters = assets.filter(a => a.type === 'character');
+  const scenes = assets.filter(a => a.type === 'scene');
+  const raw = await getActiveProvider().deductStoryboard({ script, style, count, mode, characters, scenes, continuity, model: getProviderSettings().textModel }, signal);
+  const deducted = await validateDeduction(raw, onNotice, signal);
+  return deducted.map(({ characters: charNames, scene, ...item }, index) => ({
+    ...item,
+    id: `shot-${Date.now()}-${index}`,
+    assetIds: [
+      ...matchAssetIds(charNames || [], characters),
+      ...matchAssetIds(scene ? [scene] : [], scenes)
+    ]
+  }));
 };
 
 export const renderShot = async (
@@ -101,68 +112,141 @@ export const renderShot = async (
   aspectRatio: string = "16:9",
   charAssets: Asset[] = [],
   sceneAssets: Asset[] = [],
-  mode: ProductionMode = 'anime'
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const parts: any[] = [];
-  
-  const getActiveImg = (asset: Asset) => asset.images.find(img => img.isActive)?.url;
-
-  charAssets.forEach(asset => {
-    const url = getActiveImg(asset);
-    if (url) {
-      parts.push({ inlineData: { mimeType: "image/jpeg", data: url.split(',')[1] || url } });
-      parts.push({ text: `REFERENCE CHARACTER: "${asset.name}"` });
-    }
-  });
+  mode: ProductionMode = 'anime',
+  signal?: AbortSignal
+): Promise<string> =>
+  getActiveProvider().renderShot({ prompt, style, aspectRatio, characters: charAssets, scenes: sceneAssets, mode, model: getProviderSettings().imageModel }, signal);
+
+const readRegions = (text: string) => {
+  const { regions, issues } = validateRegions(parseJson(text));
+  if (!regions) throw new SchemaValidationError('识别结果不符合约定', issues, text);
+  return regions;
+};
+
+// 识别文字 / Logo / 界面等叠加层的位置，用于预填净化遮罩；输出不合格时修复一次
+export const detectOverlays = async (image: string, onNotice?: Notify, signal?: AbortSignal): Promise<MaskRegion[]> => {
+  const raw = await getActiveProvider().detectOverlays({ image, model: getProviderSettings().textModel }, signal);
+  let regions;
+  try {
+    regions = readRegions(raw);
+  } catch (error) {
+    if (!isOutputError(error)) throw error;
+    onNotice?.(`🩹 识别结果无效（${describeOutputError(error)}），自动修复中...`);
+    regions = readRegions(await repairOutput('regions', raw, describeOutputError(error), signal));
+  }
+  const stamp = Date.now();
+  return regions.map((region, i) => ({ ...region, id: `region-${stamp}-${i}` }));
+};
 
-  sceneAssets.forEach(asset => {
-    const url = getActiveImg(asset);
-    if (url) {
-      parts.push({ inlineData: { mimeType: "image/jpeg", data: url.split(',')[1] || url } });
-      parts.push({ text: `REFERENCE SCENE: "${asset.name}"` });
+export const removeWatermark = async (imageB64: string, maskB64?: string, customInstruction?: string, signal?: AbortSignal): Promise<string> =>
+  getActiveProvider().removeWatermark({ image: imageB64, mask: maskB64, instruction: customInstruction, model: getProviderSettings().imageModel }, signal);
+
+// 按性别划分的预置音色池，同一说话人在整部分镜中保持同一音色
+export const VOICE_POOLS: Record<Shot['gender'], string[]> = {
+  male: ['Charon', 'Fenrir', 'Orus', 'Puck', 'Algenib'],
+  female: ['Kore', 'Aoede', 'Despina', 'Callirrhoe', 'Erinome'],
+  child: ['Leda', 'Zephyr', 'Laomedeia'],
+  narrator: ['Iapetus', 'Schedar', 'Gacrux']
+};
+
+export const assignVoice = (speaker: string, gender: Shot['gender'], castVoices: Record<string, string>): string => {
+  if (castVoices[speaker]) return castVoices[speaker];
+  const pool = VOICE_POOLS[gender] || VOICE_POOLS.narrator;
+  const taken = new Set(Object.values(castVoices));
+  return pool.find(v => !taken.has(v)) || pool[Object.keys(castVoices).length % pool.length];
+};
+
+export const generateVoice = async (dialogue: string, voiceName: string, emotion: string, signal?: AbortSignal): Promise<string> => {
+  const ai = getGeminiClient();
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash-preview-tts',
+    contents: [{ parts: [{ text: `用${emotion || '自然'}的语气说: ${dialogue}` }] }],
+    config: {
+      abortSignal: signal,
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } }
     }
   });
+  const data = getResponseParts(response).find(part => part.inlineData?.data)?.inlineData.data;
+  if (!data) throw new OutputParseError('配音结果中没有音频', '');
+  return data;
+};
 
-  const mediumPrefix = mode === 'anime' ? "Masterpiece Anime Art, high quality illustration" : "Award-winning Cinematic Photography, photorealistic, 8k, highly detailed skin texture, film grain";
-  const finalPromptText = `${mediumPrefix}, (Style: ${style.technicalParams}), (Colors: ${style.hexCodes.join(', ')}), ${prompt}, cinematic lighting, dramatic atmosphere --no text, logo, watermark, anime, cartoon (if cinematic)`;
-  
-  parts.push({ text: finalPromptText });
-
-  return await withRetry(async () => {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: { parts },
-      config: { imageConfig: { aspectRatio: aspectRatio as any } },
-    });
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
+// 由模型将环境声描述拆解为噪声层配方，再在本地合成音频
+export const generateAmbience = async (description: string, seconds: number = 8, signal?: AbortSignal): Promise<string> => {
+  const ai = getGeminiClient();
+  const response = await ai.models.generateContent({
+    model: 'gemini-3-flash-preview',
+    contents: `作为拟音师，将以下环境声拆解为 1-4 个合成层: "${description}"。
+source: white(嘶嘶/雨幕) pink(风/海浪) brown(低沉轰鸣/远处车流) hum(电流/机械嗡鸣，frequency 为音高) crackle(雨滴/篝火/脚步等离散颗粒，pulseRate 为每秒颗粒数/40)。
+frequency 为滤波截止频率(Hz)，gain 为 0-1 音量，pulseRate 为音量起伏频率(Hz，0 为平稳)。`,
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          layers: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                source: { type: Type.STRING, enum: ['white', 'pink', 'brown', 'hum', 'crackle'] },
+                filter: { type: Type.STRING, enum: ['lowpass', 'highpass', 'bandpass'] },
+                frequency: { type: Type.NUMBER },
+                gain: { type: Type.NUMBER },
+                pulseRate: { type: Type.NUMBER }
+              },
+              required: ["source", "filter", "frequency", "gain", "pulseRate"]
+            }
+          }
+        },
+        required: ["layers"]
+      }
     }
-    throw new Error("Render failed");
   });
+  const recipe = parseJson(getResponseText(response)) as AmbienceRecipe;
+  if (!Array.isArray(recipe?.layers)) throw new SchemaValidationError('环境声配方不符合约定', [{ path: 'layers', message: '应为数组' }], JSON.stringify(recipe));
+  return await synthesizeAmbience(recipe, seconds);
 };
 
-export const removeWatermark = async (imageB64: string, maskB64?: string, customInstruction?: string): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  return await withRetry(async () => {
-    const parts: any[] = [
-      { inlineData: { data: imageB64.split(',')[1] || imageB64, mimeType: 'image/jpeg' } }
-    ];
-    if (maskB64) {
-      parts.push({ inlineData: { data: maskB64.split(',')[1] || maskB64, mimeType: 'image/jpeg' } });
-      parts.push({ text: "URGENT: Based on this white-on-black mask, completely remove and inpaint the marked area to seamlessly match the surrounding textures, lighting, and details. Ensure no traces of text or logos remain." });
-    } else {
-      parts.push({ text: "Purify this image: remove all visible text, watermarks, and UI elements. Reconstruct the underlying pixels naturally." });
-    }
-    if (customInstruction) parts.push({ text: customInstruction });
-    
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: { parts },
-    });
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
-    }
-    throw new Error("Purification result missing in response parts");
+const VIDEO_POLL_INTERVAL = 10000;
+const VIDEO_TIMEOUT = 10 * 60 * 1000;
+
+// 以静帧为首帧生成动态镜头；Veo 为长任务，需轮询直至完成
+export const animateShot = async (
+  imageB64: string,
+  shot: Pick<Shot, 'flowLogic' | 'composition' | 'englishPrompt'>,
+  aspectRatio: string = "16:9",
+  onProgress?: (msg: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const ai = getGeminiClient();
+  const image = await toInlineData(imageB64);
+  const prompt = `Camera motion & blocking: ${shot.flowLogic}. Composition: ${shot.composition}. Scene: ${shot.englishPrompt}. Keep the first frame's characters, lighting and palette consistent, cinematic smooth motion.`;
+
+  let operation = await ai.models.generateVideos({
+    model: 'veo-3.1-fast-generate-preview',
+    prompt,
+    image: { imageBytes: image.data, mimeType: image.mimeType },
+    config: { abortSignal: signal, numberOfVideos: 1, resolution: '720p', aspectRatio: aspectRatio === '9:16' ? '9:16' : '16:9' }
   });
+
+  const startedAt = Date.now();
+  while (!operation.done) {
+    if (Date.now() - startedAt > VIDEO_TIMEOUT) throw new Error("Video generation timed out");
+    await sleep(VIDEO_POLL_INTERVAL, signal);
+    // 轮询期间的瞬时失败就地重试，不让整条视频任务从头再来
+    operation = await withBackoff(() => ai.operations.getVideosOperation({ operation, config: { abortSignal: signal } }), signal);
+    onProgress?.(`已等待 ${Math.round((Date.now() - startedAt) / 1000)}s`);
+  }
+  if (operation.error) throw new Error(`Video generation failed: ${operation.error.message || 'unknown'}`);
+
+  const filtered = operation.response?.raiMediaFilteredReasons;
+  if (operation.response?.raiMediaFilteredCount || filtered?.length) throw new SafetyBlockError('VIDEO_FILTERED', filtered?.join('; '));
+  const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
+  if (!uri) throw new Error("Video result missing in operation response");
+  const res = await fetch(`${uri}${uri.includes('?') ? '&' : '?'}key=${process.env.API_KEY}`, { signal });
+  if (!res.ok) throw new Error(`Video download failed: ${res.status}`);
+  return await putMediaBlob(await res.blob());
 };
@@ -0,0 +1,41 @@
+export const compressImage = (base64Str: string, maxWidth = 1024, quality = 0.6): Promise<string> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.src = base64Str;
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      let width = img.width;
+      let height = img.height;
+      if (width > maxWidth) {
+        height = (maxWidth / width) * height;
+        width = maxWidth;
+      }
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        ctx.imageSmoothingEnabled = true;
+        ctx.drawImage(img, 0, 0, width, height);
+      }
+      resolve(canvas.toDataURL('image/jpeg', quality));
+    };
+  });
+};
+
+export const readFileAsDataURL = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (ev) => resolve(ev.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+// 读取并压缩一批图片文件（过滤非图片）
+export const importImageFiles = async (files: File[]): Promise<string[]> => {
+  const result: string[] = [];
+  for (const file of files.filter(f => f.type.startsWith('image/'))) {
+    result.push(await compressImage(await readFileAsDataURL(file)));
+  }
+  return result;
+};
@@ -0,0 +1,118 @@
+// @vitest-environment happy-dom
+import { describe, it, expect } from 'vitest';
+import { importFountain, importFdx, parseDelimited, importShotList } from './importers';
+import { parseScript } from './scriptParser';
+import { Asset } from './types';
+
+const asset = (id: string, name: string, type: Asset['type']): Asset => ({ id, name, type, images: [], isActive: true });
+
+describe('importFountain', () => {
+  const SOURCE = `Title: _雨夜_
+Author: 某人
+
+# ACT ONE
+
+= 小明回家路上遇雨。
+
+INT. KITCHEN - DAY
+
+Mary pours *hot* coffee into my_user_name's cup. [[记得换杯子]]
+
+MARY
+(quietly)
+_Not_ again.
+
+CUT TO:
+
+# 第二场 外景 街道 夜
+
+小_明和小_红撑伞走过。
+
+===
+
+> THE END <`;
+
+  it('取出标题页，去掉章节、梗概、注释、转场与强调标记', () => {
+    const { title, script } = importFountain(SOURCE);
+    expect(title).toBe('雨夜');
+    expect(script).not.toContain('ACT ONE');
+    expect(script).not.toContain('小明回家路上遇雨');
+    expect(script).not.toContain('记得换杯子');
+    expect(script).not.toContain('CUT TO:');
+    expect(script).not.toContain('===');
+    expect(script).toContain('Mary pours hot coffee');
+    expect(script).toContain('Not again.');
+    expect(script).toContain('THE END');
+  });
+
+  it('保留 "#" 开头的中文场次标题，交给大纲识别', () => {
+    const { script } = importFountain(SOURCE);
+    expect(parseScript(script).scenes.map(s => s.heading)).toEqual(['INT. KITCHEN - DAY', '第二场 外景 街道 夜']);
+  });
+
+  it('词内的下划线不当作强调', () => {
+    const { script } = importFountain(SOURCE);
+    expect(script).toContain("my_user_name's cup");
+    expect(script).toContain('小_明和小_红撑伞走过');
+  });
+});
+
+describe('importFdx', () => {
+  const para = (type: string, text: string) => `<Paragraph Type="${type}"><Text>${text}</Text></Paragraph>`;
+
+  it('按段落类型还原为 Fountain 风格文本', () => {
+    const xml = `<?xml version="1.0"?><FinalDraft><Content>
+      ${para('Scene Heading', 'int. kitchen - day')}
+      ${para('Action', 'Mary pours coffee.')}
+      ${para('Character', 'Mary')}
+      ${para('Parenthetical', 'quietly')}
+      ${para('Dialogue', 'Not again.')}
+      ${para('Transition', 'CUT TO:')}
+      ${para('Scene Heading', '回忆 · 天台')}
+    </Content><TitlePage><Content>${para('Title', '雨夜')}</Content></TitlePage></FinalDraft>`;
+    const { title, script } = importFdx(xml);
+    expect(title).toBe('雨夜');
+    expect(script).toBe('INT. KITCHEN - DAY\n\nMary pours coffee.\n\n@Mary\n(quietly)\nNot again.\n\n.回忆 · 天台');
+  });
+
+  it('不是合法 XML 时报错', () => {
+    expect(() => importFdx('<FinalDraft><Content>')).toThrow('FDX 文件不是合法的 XML');
+  });
+});
+
+describe('parseDelimited', () => {
+  it('支持引号包裹、字段内换行与 "" 转义，丢弃空行', () => {
+    expect(parseDelimited('a,"b, ""c""\nd"\r\n\n,\n1,2', ',')).toEqual([['a', 'b, "c"\nd'], ['1', '2']]);
+  });
+
+  it('按制表符切分', () => {
+    expect(parseDelimited('镜号\t画面\n1\t雨夜', '\t')).toEqual([['镜号', '画面'], ['1', '雨夜']]);
+  });
+});
+
+describe('importShotList', () => {
+  it('按中英文表头别名成镜，跳过没有画面的行', () => {
+    const csv = '镜号,景别,Camera,画面,台词,角色,性别,时长,场景\n1,近景,推,小明推门,你好,小明,男,3.5,街道\n,,,,,,,,\n2A,远景,,,,,,,';
+    const assets = [asset('c1', '小明', 'character'), asset('s1', '街道', 'scene')];
+    const { shots, skipped } = importShotList(csv, ',', assets);
+    expect(skipped).toBe(1);
+    expect(shots).toHaveLength(1);
+    expect(shots[0]).toMatchObject({
+      name: '镜头 1',
+      composition: '近景',
+      flowLogic: '推',
+      chineseDescription: '小明推门',
+      englishPrompt: '近景, 推, 小明推门',
+      dialogue: '你好',
+      speaker: '小明',
+      gender: 'male',
+      duration: 3.5,
+      scriptScene: '街道',
+      assetIds: ['c1', 's1']
+    });
+  });
+
+  it('缺少画面描述列时报错', () => {
+    expect(() => importShotList('镜号,景别\n1,近景', ',')).toThrow('分镜表缺少画面描述列');
+  });
+});
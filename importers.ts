@@ -0,0 +1,220 @@
+import { Shot, Asset } from './types';
+import { matchAssetIds } from './shotUtils';
+import { isSceneHeading } from './scriptParser';
+
+// 剧本导入为纯文本（保留 scriptParser 能识别的场景标题 / 角色提示 / 对白结构）；分镜表直接生成分镜
+export type ImportResult =
+  | { kind: 'script'; format: 'fountain' | 'fdx'; title?: string; script: string }
+  | { kind: 'shots'; format: 'csv' | 'tsv'; shots: Shot[]; skipped: number };
+
+export const IMPORT_ACCEPT = '.fountain,.spmd,.fdx,.csv,.tsv,.txt';
+
+// Fountain 本身即纯文本：去掉标题页、注释、大纲符号、转场与强调标记；
+// "#" 章节与 "=" 梗概行只在不是场景标题时去掉（"# 第一场" 这类标题交给 scriptParser 识别）
+export const importFountain = (source: string): { title?: string; script: string } => {
+  let text = source.replace(/^﻿/, '').replace(/\r\n?/g, '\n');
+  let title: string | undefined;
+
+  // 标题页：开头的 "Key: Value" 块，以空行结束
+  const firstBlock = text.split(/\n\s*\n/)[0];
+  if (/^(Title|Credit|Author|Authors|Source|Draft date|Date|Contact|Copyright|Notes)\s*:/im.test(firstBlock) && /^[A-Za-z ]+:/.test(firstBlock)) {
+    title = firstBlock.match(/^Title\s*:\s*(.*(?:\n[ \t]+.*)*)/im)?.[1].split('\n').map(l => l.trim()).filter(Boolean).join(' ').replace(/[*_]/g, '');
+    text = text.slice(firstBlock.length).replace(/^\n+/, '');
+  }
+
+  text = text
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\[\[[\s\S]*?\]\]/g, '');
+
+  const lines = text.split('\n')
+    .filter(line => !/^\s*(#|=(?!=))/.test(line) || isSceneHeading(line))
+    .filter(line => !/^\s*={3,}\s*$/.test(line))
+    .filter(line => !/^\s*>(?!.*<\s*$)/.test(line) && !/^[A-Z ]+ TO:\s*$/.test(line.trim()))
+    .map(line => line
+      .replace(/^\s*>\s*(.*?)\s*<\s*$/, '$1')
+      .replace(/^(\s*)[!~](?=\S)/, '$1')
+      .replace(/\*{1,3}(\S(?:.*?\S)?)\*{1,3}/g, '$1')
+      // 下划线强调必须独立成词，标识符与名字里的下划线保持原样
+      .replace(/(?<![\p{L}\p{N}_])_(\S(?:.*?\S)?)_(?![\p{L}\p{N}_])/gu, '$1'));
+
+  return { title, script: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() };
+};
+
+const CUE_SAFE = /^[A-Z][A-Z0-9 .'-]+$/;
+
+// Final Draft：逐段按类型还原为 Fountain 风格文本；非大写英文的角色名用 "@" 强制为角色提示
+export const importFdx = (xml: string): { title?: string; script: string } => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('FDX 文件不是合法的 XML');
+  const content = doc.getElementsByTagName('Content')[0];
+  if (!content) throw new Error('FDX 文件中没有剧本正文');
+
+  const blocks: string[] = [];
+  let dialogue: string[] | null = null;
+  const flush = () => {
+    if (dialogue) blocks.push(dialogue.join('\n'));
+    dialogue = null;
+  };
+
+  Array.from(content.getElementsByTagName('Paragraph')).forEach(p => {
+    const text = Array.from(p.getElementsByTagName('Text')).map(t => t.textContent || '').join('').trim();
+    if (!text) return;
+    switch (p.getAttribute('Type')) {
+      case 'Scene Heading':
+        flush();
+        blocks.push(/^(INT|EXT|EST|I\/E)[.\s]/i.test(text) ? text.toUpperCase() : `.${text}`);
+        break;
+      case 'Character':
+        flush();
+        dialogue = [CUE_SAFE.test(text) ? text : `@${text}`];
+        break;
+      case 'Parenthetical':
+        if (dialogue) dialogue.push(text.startsWith('(') || text.startsWith('（') ? text : `(${text})`);
+        break;
+      case 'Dialogue':
+        if (dialogue) dialogue.push(text);
+        else blocks.push(text);
+        break;
+      // 转场不是画面节拍
+      case 'Transition':
+        flush();
+        break;
+      default:
+        flush();
+        blocks.push(text);
+    }
+  });
+  flush();
+
+  const title = doc.querySelector('TitlePage Paragraph Text')?.textContent?.trim() || undefined;
+  return { title, script: blocks.join('\n\n') };
+};
+
+// RFC 4180 风格的分隔文本解析：支持引号包裹、字段内换行与 "" 转义
+export const parseDelimited = (source: string, delimiter: string): string[][] => {
+  const text = source.replace(/^﻿/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+type ShotColumn = 'name' | 'composition' | 'flowLogic' | 'chineseDescription' | 'englishPrompt' | 'dialogue' | 'speaker' | 'emotion' | 'ambientSfx' | 'gender' | 'duration' | 'scene';
+
+// 常见分镜表的表头别名（中英文，匹配时忽略大小写与空白）
+const COLUMN_ALIASES: Record<ShotColumn, string[]> = {
+  name: ['name', 'shot', 'shotname', 'shot#', 'shotno', 'title', '镜头', '镜号', '镜头名', '名称', '标题'],
+  composition: ['composition', 'shotsize', 'size', 'framing', 'angle', 'shottype', '景别', '构图', '机位'],
+  flowLogic: ['camera', 'cameramovement', 'movement', 'motion', 'flowlogic', '运镜', '镜头运动', '调度'],
+  chineseDescription: ['description', 'action', 'visual', 'content', 'chinesedescription', '描述', '画面', '内容', '画面描述', '动作'],
+  englishPrompt: ['prompt', 'englishprompt', 'imageprompt', '提示词', '英文提示词'],
+  dialogue: ['dialogue', 'line', 'lines', 'vo', '台词', '对白'],
+  speaker: ['speaker', 'character', 'characters', 'cast', '角色', '说话人', '人物'],
+  emotion: ['emotion', 'mood', 'tone', '情绪', '语气'],
+  ambientSfx: ['sfx', 'sound', 'ambience', 'ambientsfx', 'audio', '音效', '环境声'],
+  gender: ['gender', 'sex', '性别'],
+  duration: ['duration', 'seconds', 'length', 'time', '时长', '秒数'],
+  scene: ['scene', 'location', 'sceneheading', '场景', '地点', '场次']
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_\-()（）]/g, '');
+
+const parseGender = (value: string): Shot['gender'] => {
+  const v = value.trim().toLowerCase();
+  if (/^(male|m|man|男)/.test(v)) return 'male';
+  if (/^(female|f|woman|女)/.test(v)) return 'female';
+  if (/^(child|kid|童|儿童|孩)/.test(v)) return 'child';
+  return 'narrator';
+};
+
+export const importShotList = (source: string, delimiter: string, assets: Asset[] = []): { shots: Shot[]; skipped: number } => {
+  const [header, ...rows] = parseDelimited(source, delimiter);
+  if (!header) throw new Error('分镜表为空');
+  const columns: Partial<Record<ShotColumn, number>> = {};
+  header.forEach((cell, index) => {
+    const key = normalizeHeader(cell);
+    const column = (Object.keys(COLUMN_ALIASES) as ShotColumn[]).find(c => COLUMN_ALIASES[c].includes(key));
+    if (column && columns[column] === undefined) columns[column] = index;
+  });
+  if (columns.chineseDescription === undefined && columns.englishPrompt === undefined) {
+    throw new Error('分镜表缺少画面描述列（description / 画面 / prompt 等）');
+  }
+
+  const stamp = Date.now();
+  let skipped = 0;
+  const shots: Shot[] = [];
+  rows.forEach(row => {
+    const get = (column: ShotColumn) => columns[column] !== undefined ? (row[columns[column]!] || '').trim() : '';
+    const description = get('chineseDescription');
+    const composition = get('composition');
+    // 没有画面内容的行（空行、分组标题等）跳过
+    if (!description && !get('englishPrompt')) {
+      skipped++;
+      return;
+    }
+    const prompt = get('englishPrompt') || [composition, get('flowLogic'), description].filter(Boolean).join(', ');
+    const name = get('name');
+    const speaker = get('speaker');
+    const scene = get('scene');
+    const duration = parseFloat(get('duration'));
+    shots.push({
+      id: `shot-${stamp}-${shots.length}`,
+      name: !name ? `镜头 ${shots.length + 1}` : /^\d+[a-z]?$/i.test(name) ? `镜头 ${name}` : name,
+      composition,
+      flowLogic: get('flowLogic'),
+      chineseDescription: description || prompt,
+      englishPrompt: prompt,
+      dialogue: get('dialogue'),
+      speaker,
+      gender: parseGender(get('gender')),
+      emotion: get('emotion'),
+      ambientSfx: get('ambientSfx'),
+      assetIds: matchAssetIds([...speaker.split(/[、,，/]/), scene], assets),
+      scriptScene: scene || undefined,
+      duration: duration > 0 ? duration : undefined
+    });
+  });
+  return { shots, skipped };
+};
+
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split('\n')[0];
+  return (firstLine.match(/\t/g) || []).length > (firstLine.match(/,/g) || []).length ? '\t' : ',';
+};
+
+export const importScriptFile = async (file: File, assets: Asset[] = []): Promise<ImportResult> => {
+  const text = await file.text();
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  if (ext === 'fdx') return { kind: 'script', format: 'fdx', ...importFdx(text) };
+  if (ext === 'csv' || ext === 'tsv') {
+    const delimiter = ext === 'tsv' ? '\t' : detectDelimiter(text);
+    return { kind: 'shots', format: delimiter === '\t' ? 'tsv' : 'csv', ...importShotList(text, delimiter, assets) };
+  }
+  return { kind: 'script', format: 'fountain', ...importFountain(text) };
+};
@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+
+export type JobKind = 'distill' | 'deduct' | 'render' | 'purify' | 'detect' | 'voice' | 'ambience' | 'video';
+export type JobStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  label: string;
+  priority: number;
+  status: JobStatus;
+  attempts: number;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  retryAt?: number;
+  error?: string;
+}
+
+export interface JobOptions {
+  kind: JobKind;
+  label: string;
+  priority?: number;
+  maxRetries?: number;
+}
+
+// 数值越大越先执行；交互式的文本推理优先于批量出图，长耗时的视频垫后
+export const DEFAULT_PRIORITY: Record<JobKind, number> = {
+  distill: 10,
+  deduct: 10,
+  render: 5,
+  purify: 5,
+  detect: 10,
+  voice: 3,
+  ambience: 3,
+  video: 1
+};
+
+export const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_RETRIES = 3;
+const BACKOFF_BASE = 2000;
+const BACKOFF_CAP = 60 * 1000;
+const HISTORY_LIMIT = 30;
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export const isCancelled = (error: any): boolean => error instanceof JobCancelledError || error?.name === 'AbortError';
+
+// 限流、服务端过载与网络中断值得重试；安全拦截、参数错误等重试也无用
+export const isRetryableError = (error: any): boolean => {
+  if (isCancelled(error)) return false;
+  const status = typeof error?.status === 'number' ? error.status : 0;
+  if (status === 429 || status === 408 || status >= 500) return true;
+  const msg = String(error?.message || error || '').toLowerCase();
+  return /\b(429|500|502|503|504)\b|quota|resource_exhausted|rate limit|unavailable|overloaded|failed to fetch|network/.test(msg);
+};
+
+// 服务端给出的等待时间：RetryInfo.retryDelay（"37s"）或 "retry after N" 字样
+export const getRetryAfterMs = (error: any): number | undefined => {
+  const msg = String(error?.message || error || '');
+  const delay = msg.match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/i) || msg.match(/retry[- ]after[^\d]{0,5}(\d+(?:\.\d+)?)/i);
+  return delay ? Math.ceil(parseFloat(delay[1]) * 1000) : undefined;
+};
+
+// 指数退避 + 抖动，避免多个任务同时撞上配额窗口
+export const getBackoffMs = (attempt: number, error?: any): number => {
+  const retryAfter = getRetryAfterMs(error);
+  const exp = Math.min(BACKOFF_CAP, BACKOFF_BASE * 2 ** attempt);
+  const jitter = exp * (0.5 + Math.random() * 0.5);
+  return retryAfter ? retryAfter + Math.random() * 1000 : jitter;
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new JobCancelledError());
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  const onAbort = () => { clearTimeout(timer); reject(new JobCancelledError()); };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// 不经过队列的短请求（如长任务中的轮询）使用同一套重试策略
+export const withBackoff = async <T>(fn: () => Promise<T>, signal?: AbortSignal, maxRetries = DEFAULT_MAX_RETRIES): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxRetries - 1 || !isRetryableError(error)) throw error;
+      await sleep(getBackoffMs(attempt, error), signal);
+    }
+  }
+};
+
+interface Entry {
+  job: Job;
+  maxRetries: number;
+  run: (signal: AbortSignal) => Promise<any>;
+  controller: AbortController;
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+}
+
+type Listener = (jobs: Job[]) => void;
+
+export class JobQueue {
+  private concurrency = DEFAULT_CONCURRENCY;
+  private entries: Entry[] = [];
+  private listeners = new Set<Listener>();
+  private seq = 0;
+
+  getConcurrency() {
+    return this.concurrency;
+  }
+
+  setConcurrency(n: number) {
+    this.concurrency = Math.max(1, Math.floor(n));
+    this.pump();
+  }
+
+  run<T>(options: JobOptions, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const job: Job = {
+        id: `job-${Date.now()}-${++this.seq}`,
+        kind: options.kind,
+        label: options.label,
+        priority: options.priority ?? DEFAULT_PRIORITY[options.kind],
+        status: 'queued',
+        attempts: 0,
+        createdAt: Date.now()
+      };
+      this.entries.push({ job, run, maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES, controller: new AbortController(), resolve, reject });
+      this.emit();
+      this.pump();
+    });
+  }
+
+  cancel(id: string) {
+    const entry = this.entries.find(e => e.job.id === id);
+    if (!entry || !this.isActive(entry.job)) return;
+    entry.controller.abort();
+    this.finish(entry, 'cancelled', new JobCancelledError());
+  }
+
+  cancelAll() {
+    this.entries.filter(e => this.isActive(e.job)).forEach(e => this.cancel(e.job.id));
+  }
+
+  // 插队：提到当前最高优先级之上
+  prioritize(id: string) {
+    const entry = this.entries.find(e => e.job.id === id);
+    if (!entry || entry.job.status !== 'queued') return;
+    const top = Math.max(...this.entries.map(e => e.job.priority));
+    this.update(entry, { priority: top + 1 });
+    this.pump();
+  }
+
+  clearFinished() {
+    this.entries = this.entries.filter(e => this.isActive(e.job));
+    this.emit();
+  }
+
+  getJobs(): Job[] {
+    return this.entries.map(e => e.job);
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private isActive(job: Job) {
+    return job.status === 'queued' || job.status === 'running' || job.status === 'retrying';
+  }
+
+  private update(entry: Entry, patch: Partial<Job>) {
+    entry.job = { ...entry.job, ...patch };
+    this.emit();
+  }
+
+  private emit() {
+    const jobs = this.getJobs();
+    this.listeners.forEach(l => l(jobs));
+  }
+
+  private pump() {
+    const busy = this.entries.filter(e => e.job.status === 'running' || e.job.status === 'retrying').length;
+    const waiting = this.entries
+      .filter(e => e.job.status === 'queued')
+      .sort((a, b) => b.job.priority - a.job.priority || a.job.createdAt - b.job.createdAt);
+    waiting.slice(0, Math.max(0, this.concurrency - busy)).forEach(entry => this.execute(entry));
+  }
+
+  private async execute(entry: Entry) {
+    const { signal } = entry.controller;
+    this.update(entry, { status: 'running', startedAt: Date.now() });
+    for (let attempt = 0; ; attempt++) {
+      this.update(entry, { status: 'running', attempts: attempt + 1, retryAt: undefined });
+      try {
+        const result = await entry.run(signal);
+        if (!signal.aborted) this.finish(entry, 'done', undefined, result);
+        return;
+      } catch (error: any) {
+        if (signal.aborted) return;
+        if (attempt >= entry.maxRetries - 1 || !isRetryableError(error)) {
+          this.finish(entry, 'failed', error);
+          return;
+        }
+        const wait = getBackoffMs(attempt, error);
+        this.update(entry, { status: 'retrying', retryAt: Date.now() + wait, error: String(error?.message || error) });
+        try {
+          await sleep(wait, signal);
+        } catch {
+          return;
+        }
+      }
+    }
+  }
+
+  private finish(entry: Entry, status: JobStatus, error?: any, result?: any) {
+    this.update(entry, { status, finishedAt: Date.now(), retryAt: undefined, error: error ? String(error.message || error) : undefined });
+    if (status === 'done') entry.resolve(result);
+    else entry.reject(error);
+    // 只保留最近的已结束任务供面板回看
+    const finished = this.entries.filter(e => !this.isActive(e.job));
+    if (finished.length > HISTORY_LIMIT) {
+      const drop = new Set(finished.slice(0, finished.length - HISTORY_LIMIT));
+      this.entries = this.entries.filter(e => !drop.has(e));
+      this.emit();
+    }
+    this.pump();
+  }
+}
+
+export const jobQueue = new JobQueue();
+
+export const useJobs = (): Job[] => {
+  const [jobs, setJobs] = useState<Job[]>(() => jobQueue.getJobs());
+  useEffect(() => jobQueue.subscribe(setJobs), []);
+  return jobs;
+};
@@ -0,0 +1,270 @@
+import { ImageMask, MaskOp, MaskRegion } from './types';
+import { getMediaUrl, isMediaRef, putDataUrl } from './mediaStore';
+
+// 每张图保留的操作步数，超出后最早的若干步压平为一张 raster
+export const MAX_MASK_HISTORY = 30;
+// 宽高比差异在此范围内视为同一版式，遮罩可按比例缩放套用
+const ASPECT_TOLERANCE = 0.01;
+// 识别框贴得很紧，合并进遮罩时向外扩一圈（相对短边的比例），盖住描边与阴影
+const REGION_PADDING = 0.01;
+// 扩张 / 收缩 = 模糊后按阈值二值化
+const DILATE_THRESHOLD = 0.1;
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export const loadImage = async (src: string): Promise<HTMLImageElement> => {
+  const url = isMediaRef(src) ? await getMediaUrl(src) : src;
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('图片加载失败'));
+    img.src = url;
+  });
+};
+
+// 内容寻址的引用对应固定尺寸，可放心缓存
+const sizeCache = new Map<string, ImageSize>();
+
+export const getImageSize = async (src: string): Promise<ImageSize> => {
+  const cached = sizeCache.get(src);
+  if (cached) return cached;
+  const img = await loadImage(src);
+  const size = { width: img.naturalWidth, height: img.naturalHeight };
+  sizeCache.set(src, size);
+  return size;
+};
+
+// 早期遮罩按整张快照保存（history 为快照引用栈）：每张快照转为一步 raster，原有的撤销步骤得以保留
+export const upgradeMask = (mask: ImageMask & { history?: string[] }): ImageMask => {
+  if (mask.ops) return mask;
+  const { history = [], ...rest } = mask;
+  return { ...rest, ops: history.map((ref): MaskOp => ({ type: 'raster', ref })) };
+};
+
+export const upgradeMasks = (masks: Record<string, ImageMask> = {}): Record<string, ImageMask> =>
+  Object.fromEntries(Object.entries(masks).map(([image, mask]) => [image, upgradeMask(mask)]));
+
+// --- History ---
+export const pushMaskOp = (mask: ImageMask | undefined, op: MaskOp, size: ImageSize): ImageMask => ({
+  ...mask,
+  ...size,
+  ...(op.type === 'regions' && { regions: op.after }),
+  ops: [...(mask?.ops || []), op],
+  redo: [],
+  updatedAt: Date.now()
+});
+
+export const undoMaskOp = (mask?: ImageMask): ImageMask | undefined => {
+  if (!mask || mask.ops.length === 0) return mask;
+  const op = mask.ops[mask.ops.length - 1];
+  return { ...mask, ...(op.type === 'regions' && { regions: op.before }), ops: mask.ops.slice(0, -1), redo: [...(mask.redo || []), op], updatedAt: Date.now() };
+};
+
+export const redoMaskOp = (mask?: ImageMask): ImageMask | undefined => {
+  if (!mask?.redo?.length) return mask;
+  const op = mask.redo[mask.redo.length - 1];
+  return { ...mask, ...(op.type === 'regions' && { regions: op.after }), ops: [...mask.ops, op], redo: mask.redo.slice(0, -1), updatedAt: Date.now() };
+};
+
+export const setMaskRegions = (mask: ImageMask | undefined, regions: MaskRegion[], size: ImageSize): ImageMask => ({
+  ops: [],
+  ...mask,
+  ...size,
+  regions,
+  updatedAt: Date.now()
+});
+
+// 撤销栈需要保留，所以只有从未编辑过、也没有识别区域时才算空
+const isEmptyMask = (mask: ImageMask) => mask.ops.length === 0 && !mask.redo?.length && !mask.regions?.length;
+
+export const setImageMask = (masks: Record<string, ImageMask>, image: string, mask?: ImageMask): Record<string, ImageMask> => {
+  const { [image]: _, ...rest } = masks;
+  return mask && !isEmptyMask(mask) ? { ...rest, [image]: mask } : rest;
+};
+
+// --- Rendering ---
+const createCanvas = (size: ImageSize) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  return canvas;
+};
+
+const tracePath = (ctx: CanvasRenderingContext2D, points: number[], size: ImageSize) => {
+  ctx.beginPath();
+  ctx.moveTo(points[0] * size.width, points[1] * size.height);
+  for (let i = 2; i < points.length; i += 2) ctx.lineTo(points[i] * size.width, points[i + 1] * size.height);
+};
+
+const blur = (ctx: CanvasRenderingContext2D, px: number, size: ImageSize) => {
+  const copy = createCanvas(size);
+  copy.getContext('2d')!.drawImage(ctx.canvas, 0, 0);
+  ctx.save();
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, size.width, size.height);
+  ctx.filter = `blur(${px}px)`;
+  ctx.drawImage(copy, 0, 0);
+  ctx.restore();
+};
+
+const threshold = (ctx: CanvasRenderingContext2D, level: number, size: ImageSize) => {
+  const data = ctx.getImageData(0, 0, size.width, size.height);
+  const cut = level * 255;
+  for (let i = 0; i < data.data.length; i += 4) {
+    const v = data.data[i] > cut ? 255 : 0;
+    data.data[i] = data.data[i + 1] = data.data[i + 2] = v;
+    data.data[i + 3] = 255;
+  }
+  ctx.putImageData(data, 0, 0);
+};
+
+// 在已有画面上执行一步操作；raster 需预先载入（见 renderMask）
+export const applyMaskOp = (ctx: CanvasRenderingContext2D, op: MaskOp, size: ImageSize, rasters: Map<string, HTMLImageElement> = new Map()) => {
+  ctx.save();
+  const paint = (erase: boolean) => erase ? 'black' : 'white';
+  switch (op.type) {
+    case 'stroke':
+      ctx.strokeStyle = ctx.fillStyle = paint(op.erase);
+      ctx.lineWidth = op.size * size.width;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      if (op.points.length === 2) {
+        ctx.beginPath();
+        ctx.arc(op.points[0] * size.width, op.points[1] * size.height, ctx.lineWidth / 2, 0, Math.PI * 2);
+        ctx.fill();
+      } else {
+        tracePath(ctx, op.points, size);
+        ctx.stroke();
+      }
+      break;
+    case 'rect':
+      ctx.fillStyle = paint(op.erase);
+      ctx.fillRect(op.x * size.width, op.y * size.height, op.width * size.width, op.height * size.height);
+      break;
+    case 'lasso':
+      if (op.points.length < 6) break;
+      ctx.fillStyle = paint(op.erase);
+      tracePath(ctx, op.points, size);
+      ctx.closePath();
+      ctx.fill();
+      break;
+    case 'raster': {
+      const img = rasters.get(op.ref);
+      if (img) ctx.drawImage(img, 0, 0, size.width, size.height);
+      break;
+    }
+    case 'invert':
+      ctx.globalCompositeOperation = 'difference';
+      ctx.fillStyle = 'white';
+      ctx.fillRect(0, 0, size.width, size.height);
+      break;
+    case 'feather':
+      blur(ctx, op.radius * size.width, size);
+      break;
+    case 'dilate':
+      blur(ctx, Math.abs(op.radius) * size.width, size);
+      threshold(ctx, op.radius > 0 ? DILATE_THRESHOLD : 1 - DILATE_THRESHOLD, size);
+      break;
+    case 'clear':
+      ctx.fillStyle = 'black';
+      ctx.fillRect(0, 0, size.width, size.height);
+      break;
+    case 'regions':
+      // 识别区域在合成时单独叠加（见 composeMask）
+      break;
+  }
+  ctx.restore();
+};
+
+// 先载入所有底图再同步重放，画布不会出现中间状态
+export const renderMask = async (canvas: HTMLCanvasElement, mask: ImageMask | undefined, size: ImageSize) => {
+  const refs = Array.from(new Set((mask?.ops || []).flatMap(op => op.type === 'raster' ? [op.ref] : [])));
+  const rasters = new Map(await Promise.all(refs.map(async ref => [ref, await loadImage(ref)] as const)));
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, size.width, size.height);
+  mask?.ops.forEach(op => applyMaskOp(ctx, op, size, rasters));
+};
+
+// 黑底上没有任何亮像素即视为空遮罩
+const hasMaskContent = (canvas: HTMLCanvasElement): boolean => {
+  const pixels = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height).data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i] > 20) return true;
+  }
+  return false;
+};
+
+// 遮罩存为 PNG，不会引入压缩噪点
+const saveMaskCanvas = (canvas: HTMLCanvasElement): Promise<string | undefined> =>
+  hasMaskContent(canvas) ? putDataUrl(canvas.toDataURL('image/png')) : Promise.resolve(undefined);
+
+// 操作数超过上限时把最早的几步压平为一步 raster，重放与保存的开销不再随编辑次数增长（压平的步骤不能再单独撤销）；
+// 返回的更新函数只在遮罩开头仍是这些操作时才替换，压平期间的新操作不受影响
+export const collapseMaskOps = async (mask: ImageMask): Promise<(current?: ImageMask) => ImageMask | undefined> => {
+  const excess = mask.ops.length - MAX_MASK_HISTORY;
+  if (excess <= 0) return current => current;
+  const head = mask.ops.slice(0, excess + 1);
+  const canvas = createCanvas(mask);
+  await renderMask(canvas, { ...mask, ops: head }, mask);
+  const ref = await saveMaskCanvas(canvas);
+  return current => {
+    if (!current || head.some((op, i) => current.ops[i] !== op)) return current;
+    const rest = current.ops.slice(head.length);
+    return { ...current, ops: ref ? [{ type: 'raster', ref }, ...rest] : rest, updatedAt: Date.now() };
+  };
+};
+
+// 送去净化的最终遮罩：手绘遮罩 + 识别区域；全黑时视为没有遮罩
+export const composeMask = async (mask?: ImageMask): Promise<string | undefined> => {
+  if (!mask) return undefined;
+  const canvas = createCanvas(mask);
+  await renderMask(canvas, mask, mask);
+  const ctx = canvas.getContext('2d')!;
+  const pad = Math.min(mask.width, mask.height) * REGION_PADDING;
+  ctx.fillStyle = 'white';
+  mask.regions?.forEach(r => ctx.fillRect(r.x * mask.width - pad, r.y * mask.height - pad, r.width * mask.width + pad * 2, r.height * mask.height + pad * 2));
+  return saveMaskCanvas(canvas);
+};
+
+// 手绘部分压平为一张图，套用到多张图片时只渲染一次
+const rasterCache = new WeakMap<ImageMask, Promise<string | undefined>>();
+
+const rasterizeMask = (mask: ImageMask): Promise<string | undefined> => {
+  let raster = rasterCache.get(mask);
+  if (!raster) {
+    raster = (async () => {
+      const canvas = createCanvas(mask);
+      await renderMask(canvas, mask, mask);
+      return saveMaskCanvas(canvas);
+    })();
+    rasterCache.set(mask, raster);
+  }
+  return raster;
+};
+
+export type MaskFit = 'copy' | 'scale' | 'mismatch';
+
+// 同尺寸直接复用；同比例按目标尺寸缩放；比例不同说明版式不同，不套用
+export const getMaskFit = (source: ImageSize, target: ImageSize): MaskFit => {
+  if (source.width === target.width && source.height === target.height) return 'copy';
+  const ratio = (source.width / source.height) / (target.width / target.height);
+  return Math.abs(ratio - 1) <= ASPECT_TOLERANCE ? 'scale' : 'mismatch';
+};
+
+// 源图的手绘遮罩作为目标图的一步 raster 操作（可撤销回目标原有的遮罩）；识别区域按比例坐标原样带过去
+export const transferMask = async (source: ImageMask, targetImage: string, target?: ImageMask): Promise<{ fit: MaskFit; mask?: ImageMask }> => {
+  const size = await getImageSize(targetImage);
+  const fit = getMaskFit(source, size);
+  if (fit === 'mismatch') return { fit };
+  const ref = await rasterizeMask(source);
+  let mask = target;
+  if (ref) mask = pushMaskOp(mask, { type: 'raster', ref }, size);
+  if (source.regions?.length) mask = setMaskRegions(mask, source.regions, size);
+  return { fit, mask };
+};
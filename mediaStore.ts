@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { MediaRecord } from './types';
+import { db, STORES } from './db';
+import { sha256Hex } from './sha256';
+import { parseDataUrl } from './encoding';
+import { readFileAsDataURL, importImageFiles } from './imageUtils';
+
+// 媒体引用格式："media:<sha256>"，同内容只存一份
+export const MEDIA_REF_PREFIX = 'media:';
+
+export const isMediaRef = (value?: string): boolean => !!value && value.startsWith(MEDIA_REF_PREFIX);
+
+export const putMediaBytes = async (bytes: Uint8Array, mimeType: string): Promise<string> => {
+  const id = `${MEDIA_REF_PREFIX}${sha256Hex(bytes)}`;
+  const existing = await db.getRecord<MediaRecord>(STORES.MEDIA, id);
+  if (!existing) {
+    const record: MediaRecord = { id, blob: new Blob([bytes as BlobPart], { type: mimeType }), mimeType, size: bytes.length, createdAt: Date.now() };
+    await db.write({ put: { [STORES.MEDIA]: [record] } });
+  }
+  return id;
+};
+
+export const putMediaBlob = async (blob: Blob): Promise<string> =>
+  putMediaBytes(new Uint8Array(await blob.arrayBuffer()), blob.type || 'application/octet-stream');
+
+export const putDataUrl = async (dataUrl: string): Promise<string> => {
+  const { mimeType, bytes } = parseDataUrl(dataUrl);
+  return putMediaBytes(bytes, mimeType);
+};
+
+export const getMediaBlob = async (ref: string): Promise<Blob> => {
+  const record = await db.getRecord<MediaRecord>(STORES.MEDIA, ref);
+  if (!record) throw new Error(`Media ${ref} is missing from the store`);
+  return record.blob;
+};
+
+// 模型调用需要内联 base64；兼容仍为 data URL 的旧值
+export const getMediaDataUrl = async (src: string): Promise<string> =>
+  isMediaRef(src) ? readFileAsDataURL(await getMediaBlob(src)) : src;
+
+// --- Object URL Cache ---
+const urlCache = new Map<string, string>();
+const pending = new Map<string, Promise<string>>();
+
+export const getMediaUrl = (ref: string): Promise<string> => {
+  const cached = urlCache.get(ref);
+  if (cached) return Promise.resolve(cached);
+  let request = pending.get(ref);
+  if (!request) {
+    request = getMediaBlob(ref).then(blob => {
+      const url = URL.createObjectURL(blob);
+      urlCache.set(ref, url);
+      pending.delete(ref);
+      return url;
+    }, err => {
+      pending.delete(ref);
+      throw err;
+    });
+    pending.set(ref, request);
+  }
+  return request;
+};
+
+// 切换项目时释放不再显示的 Object URL
+export const releaseMediaUrls = (keep: Set<string> = new Set()) => {
+  urlCache.forEach((url, ref) => {
+    if (!keep.has(ref)) {
+      URL.revokeObjectURL(url);
+      urlCache.delete(ref);
+    }
+  });
+};
+
+export const useMediaUrl = (src?: string): string | undefined => {
+  const [url, setUrl] = useState<string | undefined>(() => isMediaRef(src) ? urlCache.get(src) : src);
+  useEffect(() => {
+    if (!isMediaRef(src)) { setUrl(src); return; }
+    let alive = true;
+    setUrl(urlCache.get(src));
+    getMediaUrl(src).then(u => { if (alive) setUrl(u); }).catch(() => { if (alive) setUrl(undefined); });
+    return () => { alive = false; };
+  }, [src]);
+  return url;
+};
+
+// 上传的图片压缩后直接入库，返回引用
+export const importImageRefs = async (files: File[]): Promise<string[]> =>
+  Promise.all((await importImageFiles(files)).map(putDataUrl));
@@ -0,0 +1,144 @@
+import { StyleDistillation } from "./types";
+import { GenerationProvider, DeductedShot, DeductRequest } from "./providers";
+import { getMediaDataUrl, putMediaBytes } from "./mediaStore";
+import { sha256Hex } from "./sha256";
+import { sleep } from "./jobQueue";
+
+// 离线 mock 后端：同样的输入总是得到同样的输出，不发起任何网络请求
+const MOCK_LATENCY = 400;
+
+const COMPOSITIONS = ['大远景 · 三分法', '中景 · 对角线构图', '近景 · 黄金分割', '特写 · 浅景深', '俯拍 · 中心对称', '仰拍 · 引导线'];
+const FLOWS = ['缓慢推轨', '横移跟拍', '固定机位', '手持晃动', '升降摇臂', '快速甩镜'];
+const AMBIENCES = ['远处风声', '细雨敲窗', '城市低频车流', '夜晚虫鸣', ''];
+
+const encoder = new TextEncoder();
+const hashOf = (text: string) => sha256Hex(encoder.encode(text));
+const pick = <T>(list: T[], hash: string, offset = 0): T => list[(parseInt(hash.slice(offset, offset + 8), 16) >>> 0) % list.length];
+const hashColor = (hash: string, offset: number) => `#${hash.slice(offset, offset + 6).toUpperCase()}`;
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const SIZES: Record<string, [number, number]> = {
+  '16:9': [1280, 720],
+  '9:16': [720, 1280],
+  '1:1': [1024, 1024]
+};
+
+// 占位图：以风格色做渐变底，标注镜头 Prompt
+const placeholderSvg = (title: string, caption: string, colors: string[], aspectRatio: string, inner?: string) => {
+  const [w, h] = SIZES[aspectRatio] || SIZES['16:9'];
+  const lines = caption.match(/.{1,48}(\s|$)/g)?.slice(0, 4) || [caption];
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">
+<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${colors[0]}"/><stop offset="1" stop-color="${colors[1] || colors[0]}"/></linearGradient></defs>
+<rect width="100%" height="100%" fill="url(#g)"/>
+${inner || ''}
+<text x="48" y="${h - 48 - lines.length * 30}" font-family="monospace" font-size="28" font-weight="bold" fill="#fff">${escapeXml(title)}</text>
+${lines.map((line, i) => `<text x="48" y="${h - 40 - (lines.length - 1 - i) * 30}" font-family="monospace" font-size="20" fill="#fff" fill-opacity="0.8">${escapeXml(line.trim())}</text>`).join('\n')}
+</svg>`;
+};
+
+const storeSvg = (svg: string) => putMediaBytes(encoder.encode(svg), 'image/svg+xml');
+
+const splitBeats = (script: string) => script.split(/[。！？!?\n]+/).map(s => s.trim()).filter(Boolean);
+
+// 按推演方式决定每一镜的名称与描述来源
+const planShots = ({ script, count, continuity }: DeductRequest): { name: string; beat: string }[] => {
+  const beats = splitBeats(script);
+  const beatAt = (i: number) => beats[i % Math.max(1, beats.length)] || script || '空镜';
+  return Array.from({ length: count }, (_, i) => {
+    switch (continuity?.mode) {
+      case 'continue': {
+        const index = continuity.previous.length + i;
+        return { name: `Mock 镜头 ${index + 1}`, beat: beatAt(index) };
+      }
+      case 'insert': {
+        const from = continuity.previous[continuity.previous.length - 1];
+        return { name: `Mock 过渡 ${i + 1}`, beat: `${from?.chineseDescription || '前一镜'} → ${continuity.next.chineseDescription}` };
+      }
+      case 'expand':
+        return { name: `${continuity.target.name} · 机位 ${i + 1}`, beat: continuity.target.chineseDescription };
+      default:
+        return { name: `Mock 镜头 ${i + 1}`, beat: beatAt(i) };
+    }
+  });
+};
+
+export const mockProvider: GenerationProvider = {
+  id: 'mock',
+  label: '离线 Mock',
+  textModels: ['mock-text'],
+  imageModels: ['mock-image'],
+
+  async distillStyle({ images }, signal) {
+    await sleep(MOCK_LATENCY, signal);
+    const hash = hashOf(images.join('|'));
+    const style: StyleDistillation = {
+      summary: `[Mock] 基于 ${images.length} 张参考图的示例风格：低饱和冷调、硬朗侧光、颗粒胶片质感。`,
+      keywords: 'mock, moody, film grain, rim light',
+      technicalParams: '35mm, f/2.8, ISO 800, teal-orange grading',
+      colorPalette: '冷青主调搭配暖橙高光',
+      hexCodes: [hashColor(hash, 0), hashColor(hash, 6), hashColor(hash, 12), hashColor(hash, 18)],
+      detectedMedium: 'photorealistic'
+    };
+    return JSON.stringify(style);
+  },
+
+  async deductStoryboard(req, signal) {
+    await sleep(MOCK_LATENCY, signal);
+    const { characters, scenes } = req;
+    const shots = planShots(req).map(({ name, beat }, i): DeductedShot => {
+      const hash = hashOf(`${name}#${beat}`);
+      const character = characters.length > 0 ? characters[i % characters.length] : undefined;
+      const quote = beat.match(/[“"「](.+?)[”"」]/)?.[1] || '';
+      const composition = pick(COMPOSITIONS, hash);
+      return {
+        name,
+        composition,
+        flowLogic: pick(FLOWS, hash, 8),
+        chineseDescription: beat,
+        englishPrompt: `Mock shot "${name}", ${composition}, ${beat}`,
+        dialogue: quote,
+        speaker: quote ? character?.name || '旁白' : '',
+        gender: 'narrator',
+        emotion: '平静',
+        ambientSfx: pick(AMBIENCES, hash, 16),
+        characters: character ? [character.name] : [],
+        scene: scenes.length > 0 ? scenes[i % scenes.length].name : ''
+      };
+    });
+    return JSON.stringify(shots);
+  },
+
+  // mock 输出总是合法的，修复时原样返回
+  async repairOutput({ raw }, signal) {
+    await sleep(MOCK_LATENCY, signal);
+    return raw;
+  },
+
+  async renderShot({ prompt, style, aspectRatio }, signal) {
+    await sleep(MOCK_LATENCY, signal);
+    const hash = hashOf(prompt);
+    const colors = style.hexCodes.length > 0 ? style.hexCodes : [hashColor(hash, 0), hashColor(hash, 6)];
+    return storeSvg(placeholderSvg(`MOCK RENDER · ${hash.slice(0, 8)}`, prompt, colors, aspectRatio));
+  },
+
+  // 原图外加描边与标注，便于在界面上区分净化前后
+  async removeWatermark({ image, mask, instruction }, signal) {
+    await sleep(MOCK_LATENCY, signal);
+    const dataUrl = await getMediaDataUrl(image);
+    const [w, h] = SIZES['16:9'];
+    const inner = `<image href="${dataUrl}" x="0" y="0" width="${w}" height="${h}" preserveAspectRatio="xMidYMid slice"/><rect x="8" y="8" width="${w - 16}" height="${h - 16}" fill="none" stroke="#22D3EE" stroke-width="8"/>`;
+    return storeSvg(placeholderSvg('MOCK PURIFIED', `${mask ? 'masked' : 'auto'}${instruction ? ` · ${instruction}` : ''}`, ['#000000'], '16:9', inner));
+  },
+
+  // 右下角水印 + 顶部字幕条（box_2d 同 Gemini 约定），位置随图片内容小幅偏移
+  async detectOverlays({ image }, signal) {
+    await sleep(MOCK_LATENCY, signal);
+    const shift = parseInt(hashOf(image).slice(0, 2), 16) % 60;
+    const regions = [
+      { kind: 'watermark', label: 'MOCK WATERMARK', box_2d: [880, 760 - shift, 960, 960 - shift] },
+      { kind: 'text', label: 'Mock caption', box_2d: [40, 100 + shift, 110, 600 + shift] }
+    ];
+    return JSON.stringify({ regions });
+  }
+};
@@ -0,0 +1,176 @@
+import { ProjectSnapshot, Shot } from './types';
+import { createZip, readZip, ZipEntry } from './zip';
+import { parseDataUrl } from './encoding';
+import { pcmToWav, wavToPcm } from './audio';
+import { isMediaRef, getMediaBlob, putMediaBytes, putDataUrl } from './mediaStore';
+import { clearLoadingFlags } from './shotUtils';
+import { upgradeMasks } from './masks';
+
+export const BUNDLE_FORMAT = 'promptflow-project';
+export const BUNDLE_SCHEMA_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  project: ProjectSnapshot;
+}
+
+const MIME_EXT: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4'
+};
+const EXT_MIME: Record<string, string> = Object.fromEntries(Object.entries(MIME_EXT).map(([m, e]) => [e, m]));
+
+// 旧版本清单逐级迁移到当前版本
+const MIGRATIONS: Record<number, (manifest: any) => any> = {
+  // v0: 直接转储的 pf_master_*_v30 键值快照
+  0: legacy => ({
+    format: BUNDLE_FORMAT,
+    schemaVersion: 1,
+    exportedAt: legacy.exportedAt || new Date().toISOString(),
+    project: {
+      script: legacy.pf_master_script_v30 || '',
+      style: legacy.pf_master_style_v30 || null,
+      images: legacy.pf_master_images_v30 || [],
+      shots: legacy.pf_master_shots_v30 || [],
+      assets: legacy.pf_master_assets_v30 || [],
+      mode: legacy.pf_master_mode_v30 || 'cinematic',
+      castVoices: legacy.pf_master_voices_v30 || {}
+    }
+  })
+};
+
+const migrateManifest = (raw: any): BundleManifest => {
+  let manifest = raw;
+  let version = typeof manifest.schemaVersion === 'number' ? manifest.schemaVersion : 0;
+  if (version > BUNDLE_SCHEMA_VERSION) throw new Error(`Bundle schema v${version} is newer than supported v${BUNDLE_SCHEMA_VERSION}`);
+  while (version < BUNDLE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from bundle schema v${version}`);
+    manifest = migrate(manifest);
+    version = manifest.schemaVersion;
+  }
+  if (manifest.format !== BUNDLE_FORMAT) throw new Error("Not a PromptFlow project bundle");
+  return manifest;
+};
+
+interface MediaMappers {
+  visual: (value: string, name: string) => Promise<string>;
+  audio: (value: string, name: string) => Promise<string>;
+}
+
+// 遍历工程内所有媒体字段，统一做导出（媒体引用 → 文件路径）或导入（文件路径 → 媒体引用）转换
+const mapMedia = async (project: ProjectSnapshot, { visual, audio }: MediaMappers): Promise<ProjectSnapshot> => ({
+  ...project,
+  images: await Promise.all(project.images.map((img, i) => visual(img, `references/ref-${i}`))),
+  // 遮罩以参考图为键：参考图已在上一步转换过，同一媒体得到同一路径 / 引用
+  masks: Object.fromEntries(await Promise.all(Object.entries(project.masks).map(async ([image, mask], i) => [
+    await visual(image, `references/masked-${i}`),
+    {
+      ...mask,
+      ops: await Promise.all(mask.ops.map(async (op, step) => op.type === 'raster' ? { ...op, ref: await visual(op.ref, `masks/mask-${i}-${step}`) } : op)),
+      redo: mask.redo && await Promise.all(mask.redo.map(async (op, step) => op.type === 'raster' ? { ...op, ref: await visual(op.ref, `masks/mask-${i}-redo-${step}`) } : op))
+    }
+  ]))),
+  references: Object.fromEntries(await Promise.all(Object.entries(project.references).map(async ([image, meta], i) => [
+    await visual(image, `references/tagged-${i}`),
+    meta
+  ]))),
+  assets: await Promise.all(project.assets.map(async asset => ({
+    ...asset,
+    images: await Promise.all(asset.images.map(async (img, i) => ({ ...img, url: await visual(img.url, `assets/${asset.id}-${i}`) })))
+  }))),
+  shots: await Promise.all(project.shots.map(async shot => {
+    const next: Shot = { ...shot };
+    if (shot.imageUrl) next.imageUrl = await visual(shot.imageUrl, `shots/${shot.id}-frame`);
+    if (shot.videoUrl) next.videoUrl = await visual(shot.videoUrl, `shots/${shot.id}-clip`);
+    if (shot.takes) {
+      next.takes = await Promise.all(shot.takes.map(async take => ({
+        ...take,
+        imageUrl: await visual(take.imageUrl, `shots/${shot.id}-${take.id}-frame`),
+        videoUrl: take.videoUrl && await visual(take.videoUrl, `shots/${shot.id}-${take.id}-clip`)
+      })));
+    }
+    if (shot.voiceB64) next.voiceB64 = await audio(shot.voiceB64, `shots/${shot.id}-voice`);
+    if (shot.ambientB64) next.ambientB64 = await audio(shot.ambientB64, `shots/${shot.id}-ambient`);
+    return next;
+  }))
+});
+
+const stripTransientFlags = (shot: Shot): Shot => {
+  const { errors, ...rest } = clearLoadingFlags(shot);
+  return rest;
+};
+
+export const exportProjectBundle = async (snapshot: ProjectSnapshot): Promise<Blob> => {
+  const files: ZipEntry[] = [];
+  const written = new Map<string, Promise<string>>();
+
+  // 同一媒体只打包一次；以内容引用（或原始数据）为键
+  const addFile = (key: string, path: (ext: string) => string, load: () => Promise<{ bytes: Uint8Array; mimeType: string }>) => {
+    let entry = written.get(key);
+    if (!entry) {
+      entry = load().then(({ bytes, mimeType }) => {
+        const name = path(MIME_EXT[mimeType] || 'bin');
+        files.push({ name, data: bytes });
+        return name;
+      });
+      written.set(key, entry);
+    }
+    return entry;
+  };
+
+  const project = await mapMedia({ ...snapshot, shots: snapshot.shots.map(stripTransientFlags) }, {
+    visual: async (value, name) => {
+      if (isMediaRef(value)) {
+        return addFile(value, ext => `media/${name}.${ext}`, async () => {
+          const blob = await getMediaBlob(value);
+          return { bytes: new Uint8Array(await blob.arrayBuffer()), mimeType: blob.type };
+        });
+      }
+      if (value.startsWith('data:')) return addFile(value, ext => `media/${name}.${ext}`, async () => parseDataUrl(value));
+      return value;
+    },
+    audio: async (value, name) => addFile(value, () => `media/${name}.wav`, async () => ({ bytes: pcmToWav(value), mimeType: 'audio/wav' }))
+  });
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    project
+  };
+  files.sort((a, b) => a.name.localeCompare(b.name));
+  files.unshift({ name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(files);
+};
+
+export const importProjectBundle = async (file: Blob): Promise<ProjectSnapshot> => {
+  const entries = await readZip(file);
+  const byName = new Map(entries.map(e => [e.name, e.data]));
+  const manifestData = byName.get(MANIFEST_PATH);
+  if (!manifestData) throw new Error("Bundle is missing manifest.json");
+  const manifest = migrateManifest(JSON.parse(new TextDecoder().decode(manifestData)));
+
+  const readFile = (path: string) => {
+    const data = byName.get(path);
+    if (!data) throw new Error(`Bundle is missing media file ${path}`);
+    return data;
+  };
+
+  // v0 清单中媒体仍为内联数据，同样转存为媒体引用；其余路径原样保留
+  const isBundled = (value: string) => value.startsWith('media/');
+  // 早于风格预设 / 净化遮罩 / 参考图标记的工程包没有对应字段
+  return mapMedia({ stylePresets: [], references: {}, ...manifest.project, masks: upgradeMasks(manifest.project.masks) }, {
+    visual: async path => {
+      if (isBundled(path)) return putMediaBytes(readFile(path), EXT_MIME[path.split('.').pop() || ''] || 'application/octet-stream');
+      return path.startsWith('data:') ? putDataUrl(path) : path;
+    },
+    audio: async path => isBundled(path) ? wavToPcm(readFile(path)) : path
+  });
+};
@@ -0,0 +1,240 @@
+import { ProjectSnapshot, ProjectMeta, ProjectRecord, StoredShot, StoredAsset, MediaRecord, Shot, Asset } from './types';
+import { db, STORES, WriteOps } from './db';
+import { isMediaRef } from './mediaStore';
+import { upgradeMasks } from './masks';
+
+const LAST_PROJECT_KEY = 'pf_last_project';
+const SAVE_DELAY = 300;
+// 刚写入、尚未落到任何记录里的媒体不参与回收
+const ORPHAN_GRACE = 60 * 1000;
+
+export const createEmptySnapshot = (): ProjectSnapshot => ({
+  script: '',
+  style: null,
+  stylePresets: [],
+  images: [],
+  masks: {},
+  references: {},
+  shots: [],
+  assets: [],
+  mode: 'cinematic',
+  castVoices: {}
+});
+
+export const createProjectMeta = (name: string): ProjectMeta => ({
+  id: `project-${Date.now()}`,
+  name,
+  createdAt: Date.now()
+});
+
+// 按记录中保存的 ID 顺序还原列表，未登记的追加在末尾
+const orderByIds = <T extends { id: string }>(items: T[], ids: string[]): T[] => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const ordered = ids.map(id => byId.get(id)).filter((item): item is T => !!item);
+  return [...ordered, ...items.filter(item => !ids.includes(item.id))];
+};
+
+const withoutProjectId = <T>({ projectId, ...rest }: T & { projectId: string }): T => rest as unknown as T;
+
+export const listProjects = async (): Promise<ProjectMeta[]> => {
+  const records = await db.getAll<ProjectRecord>(STORES.PROJECTS);
+  return records
+    .map(({ id, name, createdAt }) => ({ id, name, createdAt }))
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const loadLastProjectId = async (): Promise<string | undefined> => db.get(LAST_PROJECT_KEY);
+
+export const saveLastProjectId = (id: string) => db.set(LAST_PROJECT_KEY, id);
+
+export const createProject = async (meta: ProjectMeta, snapshot: ProjectSnapshot) => {
+  const record: ProjectRecord = {
+    ...meta,
+    script: snapshot.script,
+    style: snapshot.style,
+    stylePresets: snapshot.stylePresets,
+    masks: snapshot.masks,
+    references: snapshot.references,
+    mode: snapshot.mode,
+    castVoices: snapshot.castVoices,
+    shotIds: snapshot.shots.map(s => s.id),
+    assetIds: snapshot.assets.map(a => a.id),
+    imageIds: snapshot.images
+  };
+  await db.write({
+    put: {
+      [STORES.PROJECTS]: [record],
+      [STORES.SHOTS]: snapshot.shots.map(shot => ({ ...shot, projectId: meta.id })),
+      [STORES.ASSETS]: snapshot.assets.map(asset => ({ ...asset, projectId: meta.id }))
+    }
+  });
+};
+
+export const renameProject = (id: string, name: string) => db.updateProject(id, { name });
+
+export const deleteProject = async (id: string) => {
+  const [shotKeys, assetKeys] = await Promise.all([
+    db.getAllKeysByProject(STORES.SHOTS, id),
+    db.getAllKeysByProject(STORES.ASSETS, id)
+  ]);
+  await db.write({
+    delete: {
+      [STORES.PROJECTS]: [id],
+      [STORES.SHOTS]: shotKeys,
+      [STORES.ASSETS]: assetKeys
+    }
+  });
+};
+
+const fetchProject = async (id: string) => {
+  const [record, shots, assets] = await Promise.all([
+    db.getRecord<ProjectRecord>(STORES.PROJECTS, id),
+    db.getAllByProject<StoredShot>(STORES.SHOTS, id),
+    db.getAllByProject<StoredAsset>(STORES.ASSETS, id)
+  ]);
+  if (!record) throw new Error(`Project ${id} not found`);
+
+  const snapshot: ProjectSnapshot = {
+    script: record.script,
+    style: record.style,
+    stylePresets: record.stylePresets || [],
+    mode: record.mode,
+    castVoices: record.castVoices,
+    images: record.imageIds,
+    masks: upgradeMasks(record.masks),
+    references: record.references || {},
+    shots: orderByIds(shots.map(s => withoutProjectId<Shot>(s)), record.shotIds),
+    assets: orderByIds(assets.map(a => withoutProjectId<Asset>(a)), record.assetIds)
+  };
+  return { record, snapshot };
+};
+
+export const readProject = async (id: string): Promise<ProjectSnapshot> => (await fetchProject(id)).snapshot;
+
+// 项目内容引用到的全部媒体：参考图、遮罩栅格、分镜与渲染记录、资产图
+export const collectMediaRefs = (project: Pick<ProjectSnapshot, 'images' | 'masks' | 'shots' | 'assets'>, refs: Set<string> = new Set()): Set<string> => {
+  const add = (value?: string) => { if (isMediaRef(value)) refs.add(value); };
+  project.images.forEach(add);
+  Object.values(project.masks).forEach(m => [...m.ops, ...(m.redo || [])].forEach(op => { if (op.type === 'raster') add(op.ref); }));
+  project.shots.forEach(s => {
+    add(s.imageUrl); add(s.videoUrl);
+    s.takes?.forEach(t => { add(t.imageUrl); add(t.videoUrl); });
+  });
+  project.assets.forEach(a => a.images.forEach(img => add(img.url)));
+  return refs;
+};
+
+// 删除不再被任何项目引用的 Blob（内容寻址下同一份媒体可被多个项目共享）
+export const collectOrphanMedia = async (): Promise<number> => {
+  await projectPersister.flush();
+  const [projects, shots, assets, media] = await Promise.all([
+    db.getAll<ProjectRecord>(STORES.PROJECTS),
+    db.getAll<StoredShot>(STORES.SHOTS),
+    db.getAll<StoredAsset>(STORES.ASSETS),
+    db.getAll<MediaRecord>(STORES.MEDIA)
+  ]);
+  const refs = new Set<string>();
+  projects.forEach(p => collectMediaRefs({ images: p.imageIds, masks: upgradeMasks(p.masks), shots: [], assets: [] }, refs));
+  collectMediaRefs({ images: [], masks: {}, shots, assets }, refs);
+  const cutoff = Date.now() - ORPHAN_GRACE;
+  const orphans = media.filter(m => !refs.has(m.id) && m.createdAt < cutoff).map(m => m.id);
+  if (orphans.length > 0) await db.write({ delete: { [STORES.MEDIA]: orphans } });
+  return orphans.length;
+};
+
+interface SavedState {
+  script: string;
+  style: ProjectSnapshot['style'];
+  stylePresets: ProjectSnapshot['stylePresets'];
+  mode: ProjectSnapshot['mode'];
+  castVoices: ProjectSnapshot['castVoices'];
+  shots: Map<string, Shot>;
+  assets: Map<string, Asset>;
+  shotOrder: string;
+  assetOrder: string;
+  images: string[];
+  masks: ProjectSnapshot['masks'];
+  references: ProjectSnapshot['references'];
+}
+
+// 记住当前项目上一次落盘的内容，只写入真正变化的记录（按引用比较）
+export class ProjectPersister {
+  private projectId: string | null = null;
+  private saved: SavedState | null = null;
+  private pending: ProjectSnapshot | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  async load(id: string): Promise<ProjectSnapshot> {
+    await this.flush();
+    const { record, snapshot } = await fetchProject(id);
+
+    this.projectId = id;
+    this.saved = {
+      script: snapshot.script,
+      style: snapshot.style,
+      stylePresets: snapshot.stylePresets,
+      mode: snapshot.mode,
+      castVoices: snapshot.castVoices,
+      shots: new Map(snapshot.shots.map(s => [s.id, s])),
+      assets: new Map(snapshot.assets.map(a => [a.id, a])),
+      shotOrder: record.shotIds.join('|'),
+      assetOrder: record.assetIds.join('|'),
+      images: snapshot.images,
+      masks: snapshot.masks,
+      references: snapshot.references
+    };
+    return snapshot;
+  }
+
+  schedule(projectId: string, snapshot: ProjectSnapshot) {
+    if (projectId !== this.projectId) return;
+    this.pending = snapshot;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), SAVE_DELAY);
+  }
+
+  async flush() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const snapshot = this.pending;
+    const saved = this.saved;
+    const projectId = this.projectId;
+    this.pending = null;
+    if (!snapshot || !saved || !projectId) return;
+
+    const ops: Required<WriteOps> = { put: {}, delete: {} };
+    const patch: Partial<ProjectRecord> = {};
+
+    const diffRecords = <T extends { id: string }>(items: T[], previous: Map<string, T>, store: typeof STORES.SHOTS | typeof STORES.ASSETS) => {
+      const changed = items.filter(item => previous.get(item.id) !== item);
+      const removed = Array.from(previous.keys()).filter(id => !items.some(item => item.id === id));
+      if (changed.length > 0) ops.put[store] = changed.map(item => ({ ...item, projectId }));
+      if (removed.length > 0) ops.delete[store] = removed.map(id => [projectId, id]);
+      return new Map(items.map(item => [item.id, item]));
+    };
+
+    saved.shots = diffRecords(snapshot.shots, saved.shots, STORES.SHOTS);
+    saved.assets = diffRecords(snapshot.assets, saved.assets, STORES.ASSETS);
+
+    const shotOrder = snapshot.shots.map(s => s.id).join('|');
+    if (shotOrder !== saved.shotOrder) { patch.shotIds = snapshot.shots.map(s => s.id); saved.shotOrder = shotOrder; }
+    const assetOrder = snapshot.assets.map(a => a.id).join('|');
+    if (assetOrder !== saved.assetOrder) { patch.assetIds = snapshot.assets.map(a => a.id); saved.assetOrder = assetOrder; }
+
+    // 参考图本身已在媒体仓库，项目记录只保存引用
+    if (snapshot.images !== saved.images) patch.imageIds = saved.images = snapshot.images;
+    if (snapshot.masks !== saved.masks) patch.masks = saved.masks = snapshot.masks;
+    if (snapshot.references !== saved.references) patch.references = saved.references = snapshot.references;
+
+    if (snapshot.script !== saved.script) patch.script = saved.script = snapshot.script;
+    if (snapshot.style !== saved.style) patch.style = saved.style = snapshot.style;
+    if (snapshot.stylePresets !== saved.stylePresets) patch.stylePresets = saved.stylePresets = snapshot.stylePresets;
+    if (snapshot.mode !== saved.mode) patch.mode = saved.mode = snapshot.mode;
+    if (snapshot.castVoices !== saved.castVoices) patch.castVoices = saved.castVoices = snapshot.castVoices;
+
+    await db.write(ops);
+    if (Object.keys(patch).length > 0) await db.updateProject(projectId, patch);
+  }
+}
+
+export const projectPersister = new ProjectPersister();
@@ -0,0 +1,124 @@
+import { Shot, StyleDistillation, Asset, ProductionMode, MaskRegion, ReferenceTag } from './types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+export type ProviderId = 'gemini' | 'mock';
+
+export interface DistillRequest {
+  images: string[];
+  // 与 images 一一对应：该参考图主要提供哪些方面（配色 / 光影 / 构图），为空则整体参考
+  tags?: ReferenceTag[][];
+  model: string;
+}
+
+// 喂回模型的已有分镜摘要
+export type ShotBrief = Pick<Shot, 'name' | 'composition' | 'flowLogic' | 'chineseDescription' | 'speaker' | 'dialogue'>;
+
+// 基于已有分镜推演：接续末尾、在两镜之间插入过渡、把一镜拆成多个机位
+export type DeductContinuity =
+  | { mode: 'continue'; previous: ShotBrief[] }
+  | { mode: 'insert'; previous: ShotBrief[]; next: ShotBrief }
+  | { mode: 'expand'; target: ShotBrief };
+
+export interface DeductRequest {
+  script: string;
+  style: StyleDistillation;
+  count: number;
+  mode: ProductionMode;
+  characters: Asset[];
+  scenes: Asset[];
+  continuity?: DeductContinuity;
+  model: string;
+}
+
+// 模型输出的原始分镜：角色/场景仍是名称，由调用方匹配回资产 ID
+export type DeductedShot = Omit<Shot, 'id' | 'assetIds'> & { characters: string[]; scene: string };
+
+export interface RenderRequest {
+  prompt: string;
+  style: StyleDistillation;
+  aspectRatio: string;
+  characters: Asset[];
+  scenes: Asset[];
+  mode: ProductionMode;
+  model: string;
+}
+
+export interface PurifyRequest {
+  image: string;
+  // 与 image 同尺寸的黑底白色遮罩（媒体引用或 data URL）
+  mask?: string;
+  instruction?: string;
+  model: string;
+}
+
+export interface DetectRequest {
+  image: string;
+  model: string;
+}
+
+// 模型输出的识别区域，由调用方分配 ID
+export type DetectedRegion = Omit<MaskRegion, 'id'>;
+
+export interface RepairRequest {
+  kind: 'style' | 'storyboard' | 'regions';
+  raw: string;
+  problems: string;
+  model: string;
+}
+
+// 文本结果返回原始 JSON 文本，由调用方统一校验（见 validation.ts）；图像结果统一返回媒体引用（见 mediaStore.ts）
+export interface GenerationProvider {
+  id: ProviderId;
+  label: string;
+  textModels: string[];
+  imageModels: string[];
+  distillStyle(req: DistillRequest, signal?: AbortSignal): Promise<string>;
+  deductStoryboard(req: DeductRequest, signal?: AbortSignal): Promise<string>;
+  repairOutput(req: RepairRequest, signal?: AbortSignal): Promise<string>;
+  renderShot(req: RenderRequest, signal?: AbortSignal): Promise<string>;
+  removeWatermark(req: PurifyRequest, signal?: AbortSignal): Promise<string>;
+  detectOverlays(req: DetectRequest, signal?: AbortSignal): Promise<string>;
+}
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  textModel: string;
+  imageModel: string;
+}
+
+export const PROVIDERS: Record<ProviderId, GenerationProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider
+};
+
+export const getDefaultSettings = (providerId: ProviderId): ProviderSettings => ({
+  providerId,
+  textModel: PROVIDERS[providerId].textModels[0],
+  imageModel: PROVIDERS[providerId].imageModels[0]
+});
+
+// 构建时可用 PROVIDER=mock 强制离线（自动化测试）；未配置 API Key 时默认使用 mock
+export const FORCED_PROVIDER: ProviderId | undefined = PROVIDERS[process.env.PROVIDER as ProviderId] ? process.env.PROVIDER as ProviderId : undefined;
+
+let activeSettings: ProviderSettings = getDefaultSettings(FORCED_PROVIDER || (process.env.API_KEY ? 'gemini' : 'mock'));
+
+// 校正持久化的设置：未知后端或已下线的模型回落到默认值
+export const normalizeSettings = (settings: Partial<ProviderSettings> | undefined): ProviderSettings => {
+  if (FORCED_PROVIDER && settings?.providerId !== FORCED_PROVIDER) return getDefaultSettings(FORCED_PROVIDER);
+  const provider = PROVIDERS[settings?.providerId as ProviderId];
+  if (!provider) return activeSettings;
+  return {
+    providerId: provider.id,
+    textModel: provider.textModels.includes(settings.textModel) ? settings.textModel : provider.textModels[0],
+    imageModel: provider.imageModels.includes(settings.imageModel) ? settings.imageModel : provider.imageModels[0]
+  };
+};
+
+export const getProviderSettings = (): ProviderSettings => activeSettings;
+
+export const setProviderSettings = (settings: ProviderSettings) => {
+  activeSettings = normalizeSettings(settings);
+};
+
+export const getActiveProvider = (): GenerationProvider => PROVIDERS[activeSettings.providerId];
@@ -0,0 +1,30 @@
+import { ReferenceMeta, ReferenceTag } from './types';
+
+export const REFERENCE_TAG_META: Record<ReferenceTag, { icon: string; label: string }> = {
+  palette: { icon: '🎨', label: '配色' },
+  lighting: { icon: '💡', label: '光影' },
+  composition: { icon: '📐', label: '构图' }
+};
+
+export const REFERENCE_TAGS = Object.keys(REFERENCE_TAG_META) as ReferenceTag[];
+
+const isEmptyReference = (meta: ReferenceMeta) => !meta.distill && !meta.tags?.length;
+
+// 没有任何标记的参考图不占记录
+export const setReference = (references: Record<string, ReferenceMeta>, image: string, meta?: ReferenceMeta): Record<string, ReferenceMeta> => {
+  const { [image]: _, ...rest } = references;
+  return meta && !isEmptyReference(meta) ? { ...rest, [image]: meta } : rest;
+};
+
+export const toggleReferenceTag = (meta: ReferenceMeta = {}, tag: ReferenceTag): ReferenceMeta => {
+  const tags = meta.tags || [];
+  return { ...meta, tags: tags.includes(tag) ? tags.filter(t => t !== tag) : REFERENCE_TAGS.filter(t => t === tag || tags.includes(t)) };
+};
+
+// 风格提取的输入：有标记为参与提取的图时只用这些，否则沿用全部参考图；同一图片只送一次
+export const getDistillSources = (images: string[], references: Record<string, ReferenceMeta>) => {
+  const unique = Array.from(new Set(images));
+  const marked = unique.filter(img => references[img]?.distill);
+  const sources = marked.length > 0 ? marked : unique;
+  return { images: sources, tags: sources.map(img => references[img]?.tags || []), isSubset: marked.length > 0 };
+};
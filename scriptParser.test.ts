@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { parseScript, isSceneHeading, suggestShotCount, MAX_SCENE_SHOTS } from './scriptParser';
+
+const SCRIPT = `INT. KITCHEN - DAY
+Mary pours coffee. The kettle whistles.
+
+MARY
+(quietly)
+Not again.
+
+第二场 外景 街道 夜
+小明（惊讶）：你怎么来了？
+人物：小明、小红
+雨越下越大。`;
+
+describe('isSceneHeading', () => {
+  it('识别英文 slugline、强制标题与中文场次', () => {
+    expect(isSceneHeading('INT. KITCHEN - DAY')).toBe(true);
+    expect(isSceneHeading('.FLASHBACK')).toBe(true);
+    expect(isSceneHeading('【第三场】 天台')).toBe(true);
+    expect(isSceneHeading('Mary pours coffee.')).toBe(false);
+  });
+});
+
+describe('parseScript', () => {
+  it('按场景切分并提取角色（含人物表）与台词', () => {
+    const { scenes, characters, hasHeadings } = parseScript(SCRIPT);
+    expect(hasHeadings).toBe(true);
+    expect(scenes.map(s => s.heading)).toEqual(['INT. KITCHEN - DAY', '第二场 外景 街道 夜']);
+    expect(scenes[0].dialogue).toEqual([{ speaker: 'MARY', text: 'Not again.', parenthetical: 'quietly' }]);
+    expect(scenes[1].dialogue).toEqual([{ speaker: '小明', text: '你怎么来了？', parenthetical: '惊讶' }]);
+    expect(characters).toEqual(['MARY', '小明', '小红']);
+  });
+
+  it('场景区间覆盖原文，可用于定位', () => {
+    const { scenes } = parseScript(SCRIPT);
+    expect(scenes[0].start).toBe(0);
+    expect(scenes[0].end).toBe(scenes[1].start);
+    expect(SCRIPT.slice(scenes[1].start).startsWith('第二场')).toBe(true);
+    expect(scenes[1].end).toBe(SCRIPT.length);
+  });
+
+  it('没有场景标题时整篇视为一个场景', () => {
+    const { scenes, hasHeadings } = parseScript('他推开门。屋里一片漆黑。');
+    expect(hasHeadings).toBe(false);
+    expect(scenes).toHaveLength(1);
+    expect(scenes[0].heading).toBe('全文');
+    expect(scenes[0].beats).toBe(2);
+  });
+});
+
+describe('suggestShotCount', () => {
+  it('至少一镜，且不超过单场上限', () => {
+    expect(suggestShotCount(0)).toBe(1);
+    expect(suggestShotCount(4)).toBe(3);
+    expect(suggestShotCount(100)).toBe(MAX_SCENE_SHOTS);
+  });
+});
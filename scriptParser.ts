@@ -0,0 +1,142 @@
+// 剧本解析：按场景标题切分，提取角色与台词，并按节拍密度估算镜头数
+
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+  parenthetical?: string;
+}
+
+export interface ScriptScene {
+  heading: string;
+  // 场景在原文中的字符区间，用于在编辑器中定位
+  start: number;
+  end: number;
+  text: string;
+  characters: string[];
+  dialogue: DialogueLine[];
+  beats: number;
+  suggestedShots: number;
+}
+
+export interface ParsedScript {
+  scenes: ScriptScene[];
+  characters: string[];
+  // 是否识别到了场景标题；没有时整篇视为一个场景
+  hasHeadings: boolean;
+}
+
+export const SHOTS_PER_BEAT = 0.75;
+export const MAX_SCENE_SHOTS = 12;
+
+const CN_NUMBER = '[\\d一二三四五六七八九十百零〇两]+';
+const HEADING_MARKERS = /^(?:#+\s*|【|\[)/;
+// 英文 slugline（INT. / EXT. 等）、Fountain 强制标题（以 "." 开头）与中文场次标题
+const SLUGLINE = /^(?:\d+[\s.、-]*)?(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/;
+const FORCED_HEADING = /^\.(?=[^.\s])/;
+const CN_HEADING = new RegExp(`^(?:${CN_NUMBER}[\\s.、-]*)?(?:第${CN_NUMBER}[场幕集]|场景\\s*${CN_NUMBER}?|场\\s*${CN_NUMBER}|内景|外景|内\\/外景)`);
+
+// "角色（情绪）：台词"
+const CN_DIALOGUE = /^([^\s：:（(，,。！？]{1,12})\s*(?:[（(]([^)）]{0,20})[)）])?\s*[：:]\s*(.+)$/;
+// Fountain 角色提示行：全大写，可带 (V.O.) 等后缀；或以 @ 强制
+const CUE = /^(?:@(.+)|([A-Z][A-Z0-9 .'-]+?))\s*(\([^)]*\))?$/;
+const PARENTHETICAL = /^[（(]([^)）]*)[)）]$/;
+// 这些"名称："开头的行是元信息而不是台词
+const META_KEYS = new Set(['时间', '地点', '人物', '角色', '场景', '备注', '注', '道具', '时长', 'NOTE']);
+const CHARACTER_LIST = /^(?:人物|角色)\s*[：:]\s*(.+)$/;
+
+const splitSentences = (text: string) => text.split(/[。！？!?…]+|\.(?:\s|$)/).map(s => s.trim()).filter(s => s.length > 1);
+
+export const isSceneHeading = (line: string): boolean => {
+  const text = line.trim().replace(HEADING_MARKERS, '');
+  return SLUGLINE.test(text) || FORCED_HEADING.test(line.trim()) || CN_HEADING.test(text);
+};
+
+const cleanHeading = (line: string) => line.trim().replace(HEADING_MARKERS, '').replace(FORCED_HEADING, '').replace(/[】\]]\s*/, ' ').trim();
+
+export const suggestShotCount = (beats: number): number => Math.min(MAX_SCENE_SHOTS, Math.max(1, Math.ceil(beats * SHOTS_PER_BEAT)));
+
+const parseScene = (heading: string, lines: string[], start: number, end: number, text: string): ScriptScene => {
+  const characters: string[] = [];
+  const dialogue: DialogueLine[] = [];
+  let actionBeats = 0;
+  const addCharacter = (name: string) => {
+    if (name && !characters.includes(name)) characters.push(name);
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const list = line.match(CHARACTER_LIST);
+    if (list) {
+      list[1].split(/[、，,\/\s]+/).map(n => n.trim()).filter(Boolean).forEach(addCharacter);
+      continue;
+    }
+
+    const cn = line.match(CN_DIALOGUE);
+    if (cn && !META_KEYS.has(cn[1])) {
+      addCharacter(cn[1]);
+      dialogue.push({ speaker: cn[1], text: cn[3].trim(), parenthetical: cn[2] || undefined });
+      continue;
+    }
+
+    // Fountain：提示行前为空行、后面紧跟台词
+    const cue = line.match(CUE);
+    const next = lines[i + 1]?.trim();
+    if (cue && next && (i === 0 || !lines[i - 1].trim())) {
+      const speaker = (cue[1] || cue[2]).trim();
+      let j = i + 1;
+      let parenthetical: string | undefined;
+      const spoken: string[] = [];
+      while (j < lines.length && lines[j].trim()) {
+        const paren = lines[j].trim().match(PARENTHETICAL);
+        if (paren) parenthetical = paren[1];
+        else spoken.push(lines[j].trim());
+        j++;
+      }
+      if (spoken.length > 0) {
+        addCharacter(speaker);
+        dialogue.push({ speaker, text: spoken.join(' '), parenthetical });
+        i = j - 1;
+        continue;
+      }
+    }
+
+    if (META_KEYS.has(line.split(/[：:]/)[0])) continue;
+    actionBeats += Math.max(1, splitSentences(line).length);
+  }
+
+  const beats = actionBeats + dialogue.length;
+  return { heading, start, end, text, characters, dialogue, beats, suggestedShots: suggestShotCount(beats) };
+};
+
+export const parseScript = (script: string): ParsedScript => {
+  const lines = script.split('\n');
+  const sections: { heading: string; start: number; lines: string[] }[] = [];
+  let offset = 0;
+  let current: { heading: string; start: number; lines: string[] } = { heading: '', start: 0, lines: [] };
+
+  for (const line of lines) {
+    if (isSceneHeading(line)) {
+      if (current.heading || current.lines.some(l => l.trim())) sections.push(current);
+      current = { heading: cleanHeading(line), start: offset, lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+    offset += line.length + 1;
+  }
+  if (current.heading || current.lines.some(l => l.trim())) sections.push(current);
+
+  const hasHeadings = sections.some(s => s.heading);
+  const scenes = sections.map((section, i) => {
+    const end = i + 1 < sections.length ? sections[i + 1].start : script.length;
+    const heading = section.heading || (hasHeadings ? '开场' : '全文');
+    return parseScene(heading, section.lines, section.start, end, script.slice(section.start, end).trim());
+  });
+
+  const characters: string[] = [];
+  scenes.forEach(scene => scene.characters.forEach(name => {
+    if (!characters.includes(name)) characters.push(name);
+  }));
+  return { scenes, characters, hasHeadings };
+};
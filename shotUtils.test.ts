@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { matchAssetIds } from './shotUtils';
+import { Asset } from './types';
+
+const asset = (id: string, name: string): Asset => ({ id, name, type: 'character', images: [], isActive: true });
+
+describe('matchAssetIds', () => {
+  const assets = [asset('a1', '李雷'), asset('a2', '李华'), asset('a3', 'Al'), asset('a4', 'Alice Chen'), asset('a5', '小明')];
+
+  it('精确匹配忽略大小写与首尾空白', () => {
+    expect(matchAssetIds([' alice chen ', 'AL'], assets)).toEqual(['a4', 'a3']);
+  });
+
+  it('中文名按子串匹配，但单字不匹配', () => {
+    expect(matchAssetIds(['小明同学'], assets)).toEqual(['a5']);
+    expect(matchAssetIds(['李', '明'], assets)).toEqual([]);
+  });
+
+  it('拉丁名须整词出现', () => {
+    expect(matchAssetIds(['Alice'], assets)).toEqual(['a4']);
+    expect(matchAssetIds(['Albert'], assets)).toEqual([]);
+  });
+
+  it('多个资产都能部分命中时不绑定', () => {
+    expect(matchAssetIds(['李雷和李华'], [asset('a1', '李雷'), asset('a2', '李华')])).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { Shot, ShotTake, Asset } from './types';
+
+export const MIN_SHOT_DURATION = 2;
+export const DEFAULT_AMBIENT_VOLUME = 0.35;
+
+// 未手动设定时长时，按台词长度估算（约每秒 4 字）
+export const getShotDuration = (shot: Shot): number => {
+  if (shot.duration && shot.duration > 0) return shot.duration;
+  const speech = (shot.dialogue || '').length / 4;
+  return Math.max(MIN_SHOT_DURATION + 1, Math.ceil(speech + 1));
+};
+
+export const formatTimecode = (seconds: number): string => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+};
+
+// 进行中的状态只在本次会话有效：任务随页面刷新或切换项目而丢失，载入时一律复位
+export const clearLoadingFlags = (shot: Shot): Shot => {
+  const { isGenerating, isVideoGenerating, isAudioLoading, isAmbientLoading, ...rest } = shot;
+  return rest;
+};
+
+// 包含匹配时较短一方至少的字数：单字（如「李」）会误中所有同姓的资产
+const MIN_PARTIAL_MATCH = 2;
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 中日韩名字没有词边界，按连续子串匹配；其余文字须整词出现（"al" 不匹配 "alice"）
+const isPartialMatch = (a: string, b: string): boolean => {
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  if (short.length < MIN_PARTIAL_MATCH || !long.includes(short)) return false;
+  if (CJK.test(short)) return true;
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(short)}(?![\\p{L}\\p{N}])`, 'u').test(long);
+};
+
+// 将角色/场景名称匹配回项目资产 ID：先精确匹配，再包含匹配（只有唯一命中时才绑定）
+export const matchAssetIds = (names: string[], assets: Asset[]): string[] => {
+  const ids = new Set<string>();
+  names.forEach(raw => {
+    const name = (raw || '').trim().toLowerCase();
+    if (!name) return;
+    const exact = assets.find(a => a.name.trim().toLowerCase() === name);
+    const partial = exact ? [] : assets.filter(a => isPartialMatch(name, a.name.trim().toLowerCase()));
+    const hit = exact || (partial.length === 1 ? partial[0] : undefined);
+    if (hit) ids.add(hit.id);
+  });
+  return Array.from(ids);
+};
+
+// --- Takes ---
+const LEGACY_TAKE_ID = 'take-legacy';
+
+// 引入渲染历史之前的镜头只有一张 imageUrl，视为唯一一条记录
+export const getShotTakes = (shot: Shot): ShotTake[] => {
+  if (shot.takes && shot.takes.length > 0) return shot.takes;
+  if (!shot.imageUrl) return [];
+  return [{ id: LEGACY_TAKE_ID, imageUrl: shot.imageUrl, videoUrl: shot.videoUrl, prompt: shot.englishPrompt, createdAt: 0 }];
+};
+
+export const getHeroTakeId = (shot: Shot): string | undefined => {
+  const takes = getShotTakes(shot);
+  return takes.find(t => t.id === shot.heroTakeId)?.id || takes[takes.length - 1]?.id;
+};
+
+const withHero = (shot: Shot, takes: ShotTake[], heroId?: string): Shot => {
+  const hero = takes.find(t => t.id === heroId) || takes[takes.length - 1];
+  return { ...shot, takes, heroTakeId: hero?.id, imageUrl: hero?.imageUrl, videoUrl: hero?.videoUrl };
+};
+
+// 新渲染的画面追加为最新一条并设为主镜
+export const addTake = (shot: Shot, imageUrl: string, prompt: string, styleName?: string): Shot => {
+  const take: ShotTake = { id: `take-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`, imageUrl, prompt, styleName, createdAt: Date.now() };
+  return withHero(shot, [...getShotTakes(shot), take], take.id);
+};
+
+export const selectTake = (shot: Shot, takeId: string): Shot => withHero(shot, getShotTakes(shot), takeId);
+
+// 删除主镜时回落到最新的一条
+export const removeTake = (shot: Shot, takeId: string): Shot => {
+  const takes = getShotTakes(shot).filter(t => t.id !== takeId);
+  return withHero(shot, takes, shot.heroTakeId === takeId ? undefined : getHeroTakeId(shot));
+};
+
+// 动态镜头属于生成它的那张静帧
+export const setTakeVideo = (shot: Shot, takeId: string, videoUrl: string): Shot => {
+  const takes = getShotTakes(shot).map(t => t.id === takeId ? { ...t, videoUrl } : t);
+  return withHero(shot, takes, getHeroTakeId(shot));
+};
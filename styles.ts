@@ -0,0 +1,29 @@
+import { StyleDistillation, StylePreset } from './types';
+
+export const MAX_SWATCHES = 8;
+
+export const EMPTY_STYLE: StyleDistillation = {
+  summary: '',
+  keywords: '',
+  technicalParams: '',
+  colorPalette: '',
+  hexCodes: [],
+  detectedMedium: 'unknown'
+};
+
+export const createStylePreset = (name: string, style: StyleDistillation): StylePreset => ({
+  id: `style-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  style,
+  createdAt: Date.now()
+});
+
+// 持久化后引用不再相同，按内容判断当前风格是否来自某个预设
+export const isSameStyle = (a: StyleDistillation | null, b: StyleDistillation | null): boolean =>
+  !!a && !!b && JSON.stringify(a) === JSON.stringify(b);
+
+// 镜头指定的预设已被删除时回落到项目当前风格
+export const resolveStyle = (styleId: string | null | undefined, presets: StylePreset[], fallback: StyleDistillation | null) => {
+  const preset = styleId ? presets.find(p => p.id === styleId) : undefined;
+  return { preset, style: preset?.style || fallback };
+};
@@ -14,6 +14,28 @@ export interface Asset {
 
 export type ProductionMode = 'anime' | 'cinematic';
 
+// 单次渲染结果；Shot.imageUrl / videoUrl 始终指向被选为主镜的那一条
+export interface ShotTake {
+  id: string;
+  imageUrl: string;
+  videoUrl?: string;
+  prompt: string;
+  // 渲染时使用的风格预设名称，未使用预设时为空
+  styleName?: string;
+  createdAt: number;
+}
+
+export type ErrorCategory = 'quota' | 'safety' | 'network' | 'bad_output' | 'unknown';
+
+// 归类后的失败信息，展示在对应分镜或面板上
+export interface StudioError {
+  category: ErrorCategory;
+  message: string;
+  at: number;
+}
+
+export type ShotAction = 'render' | 'voice' | 'ambience' | 'video';
+
 export interface Shot {
   id: string;
   name: string;
@@ -26,14 +48,26 @@ export interface Shot {
   gender: 'male' | 'female' | 'child' | 'narrator';
   emotion: string;
   ambientSfx: string;
+  assetIds?: string[];
+  // 推演来源的剧本场景标题（见 scriptParser.ts）
+  scriptScene?: string;
+  // 该场景在大纲中的序号：同名场景标题（重复的 slugline）靠它区分
+  sceneIndex?: number;
+  // 使用的风格预设 ID；为空时使用项目当前风格
+  styleId?: string;
+  duration?: number;
   imageUrl?: string;
   videoUrl?: string;
+  takes?: ShotTake[];
+  heroTakeId?: string;
   voiceB64?: string;
   ambientB64?: string;
+  ambientVolume?: number;
   isGenerating?: boolean;
   isVideoGenerating?: boolean;
   isAudioLoading?: boolean;
   isAmbientLoading?: boolean;
+  errors?: Partial<Record<ShotAction, StudioError>>;
   groundingLinks?: { title?: string; uri?: string }[];
 }
 
@@ -46,6 +80,111 @@ export interface StyleDistillation {
   detectedMedium: 'illustration' | 'photorealistic' | 'unknown';
 }
 
+// 项目内命名保存的风格，可按镜头切换（如回忆段落单独一套影调）
+export interface StylePreset {
+  id: string;
+  name: string;
+  style: StyleDistillation;
+  createdAt: number;
+}
+
+// 自动识别出的叠加层区域，坐标为相对原图宽高的比例（0-1），可在遮罩上继续拖动 / 缩放
+export interface MaskRegion {
+  id: string;
+  kind: 'text' | 'logo' | 'ui' | 'watermark';
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 遮罩编辑操作：坐标为相对原图宽高的比例，笔触粗细与半径相对原图宽度，可在任意分辨率下重放；
+// points 为扁平的 [x0, y0, x1, y1, ...]；raster 为整张套用的遮罩图（媒体引用）；
+// regions 记录一次识别区域调整的前后状态，不参与绘制，只用于撤销 / 重做
+export type MaskOp =
+  | { type: 'stroke'; erase: boolean; size: number; points: number[] }
+  | { type: 'rect'; erase: boolean; x: number; y: number; width: number; height: number }
+  | { type: 'lasso'; erase: boolean; points: number[] }
+  | { type: 'raster'; ref: string }
+  | { type: 'invert' }
+  | { type: 'feather'; radius: number }
+  | { type: 'dilate'; radius: number }
+  | { type: 'clear' }
+  | { type: 'regions'; before: MaskRegion[]; after: MaskRegion[] };
+
+// 净化遮罩（白色为待修复区域），按参考图的媒体引用保存；
+// ops 按顺序重放得到手绘遮罩，撤销的操作移入 redo；regions 在净化时与手绘遮罩合并
+export interface ImageMask {
+  ops: MaskOp[];
+  redo?: MaskOp[];
+  regions?: MaskRegion[];
+  width: number;
+  height: number;
+  updatedAt: number;
+}
+
+export type ReferenceTag = 'palette' | 'lighting' | 'composition';
+
+// 参考图的整理标记，按参考图的媒体引用保存：distill 表示参与风格提取，tags 说明取其哪方面
+export interface ReferenceMeta {
+  distill?: boolean;
+  tags?: ReferenceTag[];
+}
+
+// 批量净化的待审阅结果（仅本次会话）：接受后替换原图，失败项保留原因以便带指令重试
+export interface PurifyReviewItem {
+  original: string;
+  result?: string;
+  error?: StudioError;
+  instruction?: string;
+  isRetrying?: boolean;
+}
+
+export interface ProjectSnapshot {
+  script: string;
+  style: StyleDistillation | null;
+  stylePresets: StylePreset[];
+  images: string[];
+  masks: Record<string, ImageMask>;
+  references: Record<string, ReferenceMeta>;
+  shots: Shot[];
+  assets: Asset[];
+  mode: ProductionMode;
+  castVoices: Record<string, string>;
+}
+
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface ProjectRecord extends ProjectMeta {
+  script: string;
+  style: StyleDistillation | null;
+  stylePresets?: StylePreset[];
+  masks?: Record<string, ImageMask>;
+  references?: Record<string, ReferenceMeta>;
+  mode: ProductionMode;
+  castVoices: Record<string, string>;
+  shotIds: string[];
+  assetIds: string[];
+  imageIds: string[];
+}
+
+export type StoredShot = Shot & { projectId: string };
+export type StoredAsset = Asset & { projectId: string };
+
+// 内容寻址的媒体记录：id 即 "media:<sha256>"
+export interface MediaRecord {
+  id: string;
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+}
+
 export enum AppStatus {
   IDLE = 'IDLE',
   DISTILLING = 'DISTILLING',
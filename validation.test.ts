@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { parseJson, validateStyle, validateStoryboard, validateRegions, OutputParseError, SchemaValidationError } from './validation';
+
+const SHOT = {
+  name: '开场',
+  composition: '大远景',
+  flowLogic: '缓慢推轨',
+  chineseDescription: '雨夜街道',
+  englishPrompt: 'rainy street at night',
+  gender: 'narrator'
+};
+
+describe('parseJson', () => {
+  it('区分空输出、截断与非法 JSON', () => {
+    expect(() => parseJson('')).toThrow('模型返回为空');
+    expect(() => parseJson('{"summary": "a')).toThrow('疑似被截断');
+    expect(() => parseJson('{summary}')).toThrow('输出不是合法 JSON');
+    expect(() => parseJson(' ')).toThrow(OutputParseError);
+    expect(parseJson(' {"a": 1} ')).toEqual({ a: 1 });
+  });
+});
+
+describe('validateStyle', () => {
+  it('补全色值的 # 并为缺失的媒介取默认值', () => {
+    const { style, issues } = validateStyle({ summary: '冷调', keywords: 'k', technicalParams: 't', colorPalette: 'c', hexCodes: ['112233', '#ABC'] });
+    expect(issues).toEqual([]);
+    expect(style?.hexCodes).toEqual(['#112233', '#ABC']);
+    expect(style?.detectedMedium).toBe('unknown');
+  });
+
+  it('逐字段列出问题', () => {
+    const { style, issues } = validateStyle({ summary: ' ', keywords: 1, technicalParams: 't', colorPalette: 'c', hexCodes: ['nope'], detectedMedium: 'oil' });
+    expect(style).toBeUndefined();
+    expect(issues.map(i => i.path).sort()).toEqual(['detectedMedium', 'hexCodes', 'keywords', 'summary']);
+  });
+
+  it('非对象直接判为无效', () => {
+    expect(validateStyle([]).issues).toEqual([{ path: '', message: '风格结果应为对象' }]);
+  });
+});
+
+describe('validateStoryboard', () => {
+  it('逐镜校验，单镜失败不影响其它分镜', () => {
+    const { shots, issues } = validateStoryboard({ shots: [SHOT, { ...SHOT, englishPrompt: '', name: 1 }] }, '');
+    expect(shots[0]?.name).toBe('开场');
+    expect(shots[1]).toBeUndefined();
+    expect(issues[1].map(i => i.path)).toEqual(['[1].name', '[1].englishPrompt']);
+  });
+
+  it('性别缺失或取值意外时按旁白处理，不丢弃分镜', () => {
+    const { gender, ...withoutGender } = SHOT;
+    const { shots, issues } = validateStoryboard([withoutGender, { ...SHOT, gender: 'robot' }], '');
+    expect(shots.map(s => s?.gender)).toEqual(['narrator', 'narrator']);
+    expect(issues).toEqual([[], []]);
+  });
+
+  it('不是数组时抛出结构错误', () => {
+    expect(() => validateStoryboard({ shot: SHOT }, 'raw')).toThrow(SchemaValidationError);
+  });
+});
+
+describe('validateRegions', () => {
+  it('把 0-1000 的 box_2d 转为比例坐标', () => {
+    const { regions } = validateRegions({ regions: [{ kind: 'logo', label: '台标', box_2d: [0, 750, 125, 1000] }] });
+    expect(regions).toEqual([{ kind: 'logo', label: '台标', x: 0.75, y: 0, width: 0.25, height: 0.125 }]);
+  });
+
+  it('任一区域不合格则整体无效', () => {
+    const { regions, issues } = validateRegions([{ kind: 'text', box_2d: [0, 0, 100, 100] }, { kind: 'text', box_2d: [500, 500, 400, 600] }]);
+    expect(regions).toBeUndefined();
+    expect(issues).toEqual([{ path: 'regions[1].box_2d', message: '区域宽高必须大于 0' }]);
+  });
+});
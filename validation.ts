@@ -0,0 +1,166 @@
+import { Shot, StyleDistillation } from './types';
+import { DeductedShot, DetectedRegion } from './providers';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// 模型输出无法使用：不是合法 JSON（常见于被截断）或缺少预期的内容
+export class OutputParseError extends Error {
+  constructor(message: string, public raw: string) {
+    super(message);
+    this.name = 'OutputParseError';
+  }
+}
+
+// JSON 合法但结构不符合约定
+export class SchemaValidationError extends Error {
+  constructor(message: string, public issues: ValidationIssue[], public raw: string) {
+    super(message);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+export const formatIssues = (issues: ValidationIssue[]): string =>
+  issues.map(i => i.path ? `${i.path} ${i.message}` : i.message).join('；');
+
+export const parseJson = (raw: string | undefined): unknown => {
+  const text = (raw || '').trim();
+  if (!text) throw new OutputParseError('模型返回为空', '');
+  try {
+    return JSON.parse(text);
+  } catch {
+    const truncated = !/[}\]]$/.test(text);
+    throw new OutputParseError(truncated ? '输出 JSON 不完整（疑似被截断）' : '输出不是合法 JSON', text);
+  }
+};
+
+const GENDERS: Shot['gender'][] = ['male', 'female', 'child', 'narrator'];
+const MEDIUMS: StyleDistillation['detectedMedium'][] = ['illustration', 'photorealistic', 'unknown'];
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const REGION_KINDS: DetectedRegion['kind'][] = ['text', 'logo', 'ui', 'watermark'];
+// 识别框沿用 Gemini 的约定：[ymin, xmin, ymax, xmax]，按 0-1000 归一化
+const BOX_SCALE = 1000;
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// 字段检查器：required 缺失或类型不符记为问题；optional 缺失时取默认值
+const checker = (obj: Record<string, any>, prefix: string, issues: ValidationIssue[]) => ({
+  string(key: string, opts: { required?: boolean; nonEmpty?: boolean } = {}): string {
+    const value = obj[key];
+    if (value == null) {
+      if (opts.required) issues.push({ path: `${prefix}${key}`, message: '缺少字段' });
+      return '';
+    }
+    if (typeof value !== 'string') {
+      issues.push({ path: `${prefix}${key}`, message: `应为字符串，实际为 ${Array.isArray(value) ? 'array' : typeof value}` });
+      return '';
+    }
+    if (opts.nonEmpty && !value.trim()) issues.push({ path: `${prefix}${key}`, message: '不能为空' });
+    return value;
+  },
+  // lenient：取值不在范围内时也取默认值而不记为问题（次要字段不值得为此丢弃整条结果）
+  oneOf<T extends string>(key: string, allowed: T[], fallback?: T, opts: { lenient?: boolean } = {}): T {
+    const value = obj[key];
+    if (allowed.includes(value)) return value;
+    if (fallback && (value == null || opts.lenient)) return fallback;
+    issues.push({ path: `${prefix}${key}`, message: value == null ? '缺少字段' : `取值 ${JSON.stringify(value)} 不在 ${allowed.join('/')} 中` });
+    return fallback || allowed[0];
+  },
+  stringArray(key: string, opts: { required?: boolean } = {}): string[] {
+    const value = obj[key];
+    if (value == null) {
+      if (opts.required) issues.push({ path: `${prefix}${key}`, message: '缺少字段' });
+      return [];
+    }
+    if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+      issues.push({ path: `${prefix}${key}`, message: '应为字符串数组' });
+      return [];
+    }
+    return value;
+  }
+});
+
+export const validateStyle = (value: unknown): { style?: StyleDistillation; issues: ValidationIssue[] } => {
+  if (!isObject(value)) return { issues: [{ path: '', message: '风格结果应为对象' }] };
+  const issues: ValidationIssue[] = [];
+  const c = checker(value, '', issues);
+  const hexCodes = c.stringArray('hexCodes', { required: true });
+  const invalidHex = hexCodes.filter(h => !HEX_PATTERN.test(h.trim()));
+  if (invalidHex.length > 0) issues.push({ path: 'hexCodes', message: `包含无效色值 ${invalidHex.join(', ')}` });
+  else if (hexCodes.length === 0 && value.hexCodes != null) issues.push({ path: 'hexCodes', message: '至少需要一个色值' });
+  const style: StyleDistillation = {
+    summary: c.string('summary', { required: true, nonEmpty: true }),
+    keywords: c.string('keywords', { required: true }),
+    technicalParams: c.string('technicalParams', { required: true }),
+    colorPalette: c.string('colorPalette', { required: true }),
+    hexCodes: hexCodes.map(h => h.trim().startsWith('#') ? h.trim() : `#${h.trim()}`),
+    detectedMedium: c.oneOf('detectedMedium', MEDIUMS, 'unknown')
+  };
+  return issues.length > 0 ? { issues } : { style, issues };
+};
+
+export const validateShot = (value: unknown, index: number): { shot?: DeductedShot; issues: ValidationIssue[] } => {
+  const prefix = `[${index}].`;
+  if (!isObject(value)) return { issues: [{ path: `[${index}]`, message: '分镜应为对象' }] };
+  const issues: ValidationIssue[] = [];
+  const c = checker(value, prefix, issues);
+  const shot: DeductedShot = {
+    name: c.string('name', { required: true, nonEmpty: true }),
+    composition: c.string('composition', { required: true }),
+    flowLogic: c.string('flowLogic', { required: true }),
+    chineseDescription: c.string('chineseDescription', { required: true }),
+    englishPrompt: c.string('englishPrompt', { required: true, nonEmpty: true }),
+    dialogue: c.string('dialogue'),
+    speaker: c.string('speaker'),
+    gender: c.oneOf('gender', GENDERS, 'narrator', { lenient: true }),
+    emotion: c.string('emotion'),
+    ambientSfx: c.string('ambientSfx'),
+    characters: c.stringArray('characters'),
+    scene: c.string('scene')
+  };
+  return issues.length > 0 ? { issues } : { shot, issues };
+};
+
+export interface StoryboardValidation {
+  shots: (DeductedShot | undefined)[];
+  issues: ValidationIssue[][];
+}
+
+// 逐镜校验：单镜失败不影响其它分镜
+export const validateStoryboard = (value: unknown, raw: string): StoryboardValidation => {
+  const list = Array.isArray(value) ? value : isObject(value) && Array.isArray(value.shots) ? value.shots : null;
+  if (!list) throw new SchemaValidationError('分镜结果应为数组', [{ path: '', message: '分镜结果应为数组' }], raw);
+  const results = list.map((item, i) => validateShot(item, i));
+  return { shots: results.map(r => r.shot), issues: results.map(r => r.issues) };
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value / BOX_SCALE));
+
+export const validateRegion = (value: unknown, index: number): { region?: DetectedRegion; issues: ValidationIssue[] } => {
+  const prefix = `regions[${index}].`;
+  if (!isObject(value)) return { issues: [{ path: `regions[${index}]`, message: '区域应为对象' }] };
+  const issues: ValidationIssue[] = [];
+  const c = checker(value, prefix, issues);
+  const kind = c.oneOf('kind', REGION_KINDS, 'text');
+  const label = c.string('label');
+  const box = value.box_2d;
+  if (!Array.isArray(box) || box.length !== 4 || box.some(n => typeof n !== 'number' || !isFinite(n))) {
+    issues.push({ path: `${prefix}box_2d`, message: '应为 4 个数字 [ymin, xmin, ymax, xmax]' });
+    return { issues };
+  }
+  const [ymin, xmin, ymax, xmax] = box.map(clamp01);
+  if (ymax <= ymin || xmax <= xmin) issues.push({ path: `${prefix}box_2d`, message: '区域宽高必须大于 0' });
+  const region: DetectedRegion = { kind, label, x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+  return issues.length > 0 ? { issues } : { region, issues };
+};
+
+// 没有识别到叠加层时返回空数组；任一区域不合格则整体交回修复
+export const validateRegions = (value: unknown): { regions?: DetectedRegion[]; issues: ValidationIssue[] } => {
+  const list = Array.isArray(value) ? value : isObject(value) && Array.isArray(value.regions) ? value.regions : null;
+  if (!list) return { issues: [{ path: 'regions', message: '识别结果应为数组' }] };
+  const results = list.map((item, i) => validateRegion(item, i));
+  const issues = results.flatMap(r => r.issues);
+  return issues.length > 0 ? { issues } : { regions: results.map(r => r.region!), issues };
+};
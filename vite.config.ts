@@ -6,6 +6,8 @@ export default defineConfig({
   define: {
     // 注入 API_KEY
     'process.env.API_KEY': JSON.stringify(process.env.API_KEY || ''),
+    // 生成后端：PROVIDER=mock 时离线运行
+    'process.env.PROVIDER': JSON.stringify(process.env.PROVIDER || ''),
     // 模拟 Node 环境变量
     'process.env.NODE_ENV': JSON.stringify(process.env.NODE_ENV || 'development'),
     // 全局 global 模拟